@@ -5,6 +5,8 @@ const nextConfig = {
     // your project has ESLint errors.
     ignoreDuringBuilds: true,
   },
+  // Native WebSocket server for the OCPP central system, must not be bundled
+  serverExternalPackages: ["ws"],
 }
 
 module.exports = nextConfig 
\ No newline at end of file
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+// Saves a live chrg.direct charger page as a fixture in fixtures/chrg-direct, with personal data removed.
+//
+//   npm run capture:chrg-direct -- --evseId "DE*MDS*E006234" --name charging.de --lang de
+//
+// The page is fetched the way the scrapers do: a first request picks up the session cookie, the second one
+// is saved. E-mail addresses, phone numbers, session and CSRF tokens and tracking ids are replaced; check
+// the diff for anything else personal (names on a running session, licence plates) before committing it.
+
+import { writeFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "chrg-direct")
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
+const LANGUAGES = { de: "de-DE,de;q=0.9", en: "en-US,en;q=0.5" }
+
+function readArgs() {
+  const args = { evseId: "", name: "", lang: "de", url: process.env.CHRG_DIRECT_URL || "https://www.chrg.direct" }
+  const argv = process.argv.slice(2)
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, "")
+    if (!(key in args)) {
+      console.error(`Unknown option --${key}; options: --evseId <id> --name <fixture> --lang de|en --url <base>`)
+      process.exit(1)
+    }
+    args[key] = argv[i + 1]
+  }
+  if (!args.evseId || !/^[a-z0-9.-]+$/i.test(args.name) || !(args.lang in LANGUAGES)) {
+    console.error("Usage: capture-chrg-direct.mjs --evseId <id> --name <fixture, e.g. charging.de> [--lang de|en]")
+    process.exit(1)
+  }
+  return args
+}
+
+// Replacements for everything on a page that identifies a person or a browser session
+const SCRUBBERS = [
+  [/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, "kontakt@example.com"],
+  [/(?:\+|\b00)\d{2}[\d\s/()-]{6,}\d/g, "+49 000 0000000"],
+  [/(<input\b[^>]*\btype=["']hidden["'][^>]*\bvalue=["'])[^"']*/gi, "$1redacted"],
+  [/(<meta\b[^>]*\bname=["'][^"']*(?:csrf|token)[^"']*["'][^>]*\bcontent=["'])[^"']*/gi, "$1redacted"],
+  [/(\bnonce=["'])[^"']*/gi, "$1redacted"],
+  [/([?&;](?:session|sessionid|sid|token|jsessionid|phpsessid)=)[^&"'\s<]+/gi, "$1redacted"],
+  [/\b(?:UA-\d{4,}-\d+|G-[A-Z0-9]{6,}|GTM-[A-Z0-9]{4,})\b/g, "G-REDACTED"],
+]
+
+function scrub(html) {
+  return SCRUBBERS.reduce((page, [pattern, replacement]) => page.replace(pattern, replacement), html)
+}
+
+async function capture({ evseId, lang, url }) {
+  const pageUrl = `${url.replace(/\/+$/, "")}/?evseId=${encodeURIComponent(evseId)}`
+  const headers = {
+    "User-Agent": USER_AGENT,
+    Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+    "Accept-Language": LANGUAGES[lang],
+  }
+
+  const initial = await fetch(pageUrl, { headers, signal: AbortSignal.timeout(15000) })
+  if (!initial.ok) throw new Error(`${pageUrl} answered ${initial.status}`)
+  const cookies = initial.headers.get("set-cookie")
+
+  const response = await fetch(pageUrl, {
+    headers: { ...headers, ...(cookies ? { Cookie: cookies } : {}), Referer: pageUrl },
+    signal: AbortSignal.timeout(15000),
+  })
+  if (!response.ok) throw new Error(`${pageUrl} answered ${response.status}`)
+  return response.text()
+}
+
+const args = readArgs()
+try {
+  const html = scrub(await capture(args))
+  const note = `<!-- chrg.direct charger page for ${args.evseId}, language ${args.lang}; captured ${new Date().toISOString().slice(0, 10)} with scripts/capture-chrg-direct.mjs, personal data removed -->`
+  const page = /^<!doctype[^>]*>/i.test(html) ? html.replace(/^(<!doctype[^>]*>)/i, `$1\n${note}`) : `${note}\n${html}`
+  const file = join(FIXTURE_DIR, `${args.name}.html`)
+  writeFileSync(file, page)
+  console.log(`Saved ${file} (${page.length} characters); review it, then add a row to src/lib/providers/parsers.test.ts if it is new`)
+} catch (error) {
+  console.error(`Capture failed: ${error.message}`)
+  process.exit(1)
+}
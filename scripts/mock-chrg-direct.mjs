@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+// Local stand-in for chrg.direct that serves the pages in fixtures/chrg-direct.
+//
+//   npm run mock:chrg-direct -- --port 3190 --fixture available.de --map "DE*MDS*E006234=charging.en"
+//   CHRG_DIRECT_URL=http://localhost:3190 npm run dev
+//
+// Chargers without a mapping get --fixture. A mapping to a number answers with that HTTP status,
+// e.g. "DE*MDS*E006198=503". Mappings can be changed while running:
+//
+//   curl -X POST "http://localhost:3190/__mock?evseId=DE*MDS*E006234&fixture=error.de"
+
+import { createServer } from "node:http"
+import { readdirSync, readFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "chrg-direct")
+const SESSION_COOKIE = "chrg_session"
+
+function readArgs() {
+  const args = { port: 3190, fixture: "available.de", map: "" }
+  const argv = process.argv.slice(2)
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, "")
+    if (!(key in args)) {
+      console.error(`Unknown option --${key}; options: --port --fixture <name> --map <evseId=name,...>`)
+      process.exit(1)
+    }
+    args[key] = typeof args[key] === "number" ? Number(argv[i + 1]) : argv[i + 1]
+  }
+  return args
+}
+
+const args = readArgs()
+const fixtures = new Map(
+  readdirSync(FIXTURE_DIR)
+    .filter((file) => file.endsWith(".html"))
+    .map((file) => [file.replace(/\.html$/, ""), readFileSync(join(FIXTURE_DIR, file), "utf8")]),
+)
+const mapping = new Map()
+
+function isKnown(name) {
+  return fixtures.has(name) || /^\d{3}$/.test(name)
+}
+
+function assign(evseId, name) {
+  if (!isKnown(name)) {
+    throw new Error(`Unknown fixture ${name}; available: ${[...fixtures.keys()].join(", ")}`)
+  }
+  mapping.set(evseId, name)
+}
+
+try {
+  if (!isKnown(args.fixture)) {
+    throw new Error(`Unknown fixture ${args.fixture}; available: ${[...fixtures.keys()].join(", ")}`)
+  }
+  for (const pair of args.map.split(",").filter(Boolean)) {
+    const [evseId, name] = pair.split("=")
+    assign(evseId.trim(), name.trim())
+  }
+} catch (error) {
+  console.error(error.message)
+  process.exit(1)
+}
+
+function send(response, status, body, headers = {}) {
+  response.writeHead(status, { "Content-Type": "text/plain; charset=utf-8", ...headers })
+  response.end(body)
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`)
+  const evseId = url.searchParams.get("evseId")
+
+  if (url.pathname === "/__mock") {
+    if (request.method === "GET") {
+      return send(response, 200, JSON.stringify({ fixture: args.fixture, mapping: Object.fromEntries(mapping) }), {
+        "Content-Type": "application/json",
+      })
+    }
+    if (request.method !== "POST" || !evseId) {
+      return send(response, 400, "POST /__mock?evseId=<id>&fixture=<name>")
+    }
+    try {
+      assign(evseId, url.searchParams.get("fixture") ?? "")
+      console.log(`${evseId} now serves ${mapping.get(evseId)}`)
+      return send(response, 204, "")
+    } catch (error) {
+      return send(response, 400, error.message)
+    }
+  }
+
+  if (url.pathname !== "/" || !evseId) {
+    return send(response, 404, "Not found")
+  }
+
+  const name = mapping.get(evseId) ?? args.fixture
+  console.log(`${request.method} ${url.pathname}${url.search} -> ${name}`)
+  if (/^\d{3}$/.test(name)) {
+    return send(response, Number(name), `Mock upstream answered ${name}`)
+  }
+
+  // Like the real site, hand out a session cookie on the first visit
+  const headers = { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" }
+  if (!request.headers.cookie?.includes(`${SESSION_COOKIE}=`)) {
+    headers["Set-Cookie"] = `${SESSION_COOKIE}=${Math.random().toString(36).slice(2)}; Path=/; HttpOnly`
+  }
+  send(response, 200, fixtures.get(name), headers)
+})
+
+server.listen(args.port, () => {
+  console.log(`Mock chrg.direct on http://localhost:${args.port}, default fixture ${args.fixture}`)
+  console.log(`Fixtures: ${[...fixtures.keys()].join(", ")}`)
+})
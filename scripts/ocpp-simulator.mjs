@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+// Minimal OCPP 1.6-J charge point for testing the central system locally.
+//
+//   OCPP_PORT=9220 OCPP_AUTH_KEYS=CP-PRIEN-1=<key> npm run dev
+//   npm run ocpp:simulate -- --id CP-PRIEN-1 --key <key> --connector 1
+//
+// The charge point id must be bound to a charger in the registry
+// (PATCH /api/admin/chargers/<evseId> with {"ocpp": {"chargePointId", "connectorId"}}), and --key
+// must match its entry in OCPP_AUTH_KEYS.
+// The simulator boots, reports Available, then loops through charging sessions.
+
+import WebSocket from "ws"
+
+function readArgs() {
+  const args = { url: "ws://localhost:9220/ocpp", id: "CP-PRIEN-1", key: "", connector: 1, idle: 30, session: 60 }
+  const argv = process.argv.slice(2)
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, "")
+    if (!(key in args)) {
+      console.error(`Unknown option --${key}; options: --url --id --key --connector --idle <s> --session <s>`)
+      process.exit(1)
+    }
+    args[key] = typeof args[key] === "number" ? Number(argv[i + 1]) : argv[i + 1]
+  }
+  return args
+}
+
+const args = readArgs()
+const pending = new Map()
+let messageId = 0
+let heartbeatTimer = null
+
+const sleep = (seconds) => new Promise((resolve) => setTimeout(resolve, seconds * 1000))
+
+const socket = new WebSocket(`${args.url}/${encodeURIComponent(args.id)}`, "ocpp1.6", {
+  headers: { Authorization: `Basic ${Buffer.from(`${args.id}:${args.key}`).toString("base64")}` },
+})
+
+function call(action, payload) {
+  const uniqueId = String(++messageId)
+  socket.send(JSON.stringify([2, uniqueId, action, payload]))
+  console.log(`-> ${action}`, JSON.stringify(payload))
+  return new Promise((resolve, reject) => pending.set(uniqueId, { action, resolve, reject }))
+}
+
+socket.on("message", (data) => {
+  const [messageType, uniqueId, ...rest] = JSON.parse(data.toString())
+  const request = pending.get(uniqueId)
+  if (!request) return
+  pending.delete(uniqueId)
+
+  if (messageType === 3) {
+    console.log(`<- ${request.action}`, JSON.stringify(rest[0]))
+    request.resolve(rest[0])
+  } else {
+    console.error(`<- ${request.action} failed: ${rest[0]} ${rest[1]}`)
+    request.reject(new Error(rest[1]))
+  }
+})
+
+const statusNotification = (status) =>
+  call("StatusNotification", {
+    connectorId: args.connector,
+    errorCode: "NoError",
+    status,
+    timestamp: new Date().toISOString(),
+  })
+
+async function chargingSession(meterStart) {
+  await statusNotification("Preparing")
+  const { transactionId } = await call("StartTransaction", {
+    connectorId: args.connector,
+    idTag: "SIMULATOR",
+    meterStart,
+    timestamp: new Date().toISOString(),
+  })
+  await statusNotification("Charging")
+
+  // 11 kW, reported every 10 seconds
+  let meter = meterStart
+  for (let elapsed = 0; elapsed < args.session; elapsed += 10) {
+    await sleep(Math.min(10, args.session - elapsed))
+    meter += Math.round((11000 * Math.min(10, args.session - elapsed)) / 3600)
+    await call("MeterValues", {
+      connectorId: args.connector,
+      transactionId,
+      meterValue: [
+        {
+          timestamp: new Date().toISOString(),
+          sampledValue: [
+            { value: String(meter), measurand: "Energy.Active.Import.Register", unit: "Wh" },
+            { value: "11000", measurand: "Power.Active.Import", unit: "W" },
+          ],
+        },
+      ],
+    })
+  }
+
+  await call("StopTransaction", { transactionId, meterStop: meter, timestamp: new Date().toISOString(), reason: "EVDisconnected" })
+  await statusNotification("Finishing")
+  await statusNotification("Available")
+  return meter
+}
+
+socket.on("open", async () => {
+  try {
+    const boot = await call("BootNotification", { chargePointVendor: "Prien", chargePointModel: "Simulator" })
+    heartbeatTimer = setInterval(() => call("Heartbeat", {}).catch(() => {}), boot.interval * 1000)
+
+    await statusNotification("Available")
+    let meter = 0
+    for (;;) {
+      await sleep(args.idle)
+      meter = await chargingSession(meter)
+    }
+  } catch (error) {
+    console.error(error.message)
+    socket.close()
+  }
+})
+
+socket.on("unexpected-response", (_, response) => {
+  console.error(`Connection refused: ${response.statusCode} ${response.statusMessage}`)
+  process.exit(1)
+})
+
+socket.on("close", () => {
+  clearInterval(heartbeatTimer)
+  console.log("Disconnected")
+  process.exit(0)
+})
+
+socket.on("error", (error) => {
+  console.error(`Connection error: ${error.message}`)
+})
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ExportPanel } from "@/components/export-panel"
+import { useI18n } from "@/components/i18n-provider"
+import { LocaleSwitcher } from "@/components/locale-switcher"
+import { ArrowLeft, RefreshCw } from "lucide-react"
+
+interface UtilizationBucket {
+  charging: number
+  available: number
+  occupancy: number | null
+}
+
+interface ChargerUtilization {
+  evseId: string
+  location: string
+  buckets: UtilizationBucket[][]
+  observations: number
+}
+
+// 1 January 2024 was a Monday; the buckets start with Monday, too
+const WEEKDAYS = Array.from({ length: 7 }, (_, weekday) => new Date(2024, 0, 1 + weekday))
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+const RANGES = [7, 28, 90]
+
+export default function AnalyticsPage() {
+  const [chargers, setChargers] = useState<ChargerUtilization[]>([])
+  const [days, setDays] = useState(28)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { t, formatDateTime, formatNumber } = useI18n()
+  const weekdayLabels = WEEKDAYS.map((day) => formatDateTime(day, { weekday: "short" }))
+
+  useEffect(() => {
+    const fetchUtilization = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+        const response = await fetch(`/api/analytics/utilization?from=${encodeURIComponent(from)}`)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch utilization: ${response.statusText}`)
+        }
+        const data = await response.json()
+        setChargers(data.chargers)
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        console.error("Error fetching utilization:", errorMessage)
+        setError(errorMessage)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUtilization()
+  }, [days])
+
+  const getCellStyle = (bucket: UtilizationBucket) => {
+    if (bucket.occupancy === null) {
+      return { backgroundColor: "#f3f4f6" }
+    }
+    // Dashboard blue, more opaque the busier the slot
+    return { backgroundColor: `rgba(10, 33, 88, ${0.08 + (bucket.occupancy / 100) * 0.92})` }
+  }
+
+  const getCellTitle = (weekday: number, hour: number, bucket: UtilizationBucket) => {
+    const slot = `${weekdayLabels[weekday]} ${hour}:00–${hour + 1}:00`
+    if (bucket.occupancy === null) {
+      return t("analytics.noData", { slot })
+    }
+    return t("analytics.occupancy", {
+      slot,
+      occupancy: formatNumber(bucket.occupancy),
+      count: bucket.charging + bucket.available,
+    })
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-8">
+      <div className="container px-4 mx-auto">
+        <div className="flex flex-col items-center mb-8">
+          <h1 className="text-3xl font-bold text-[#0a2158] text-center">{t("analytics.title")}</h1>
+          <p className="text-gray-600 mt-2 text-center max-w-2xl">
+            {t("analytics.subtitle")}
+          </p>
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            <Link href="/">
+              <Button variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {t("nav.dashboard")}
+              </Button>
+            </Link>
+            <LocaleSwitcher />
+            {RANGES.map((range) => (
+              <Button
+                key={range}
+                onClick={() => setDays(range)}
+                disabled={loading}
+                variant={days === range ? "default" : "outline"}
+                className={days === range ? "bg-[#0a2158] hover:bg-[#0a2158]/90" : "border-[#0a2158] text-[#0a2158]"}
+              >
+                {loading && days === range && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+                {t("common.days", { count: range })}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <ExportPanel />
+
+        {error && <p className="mb-6 text-center text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-col gap-6">
+          {loading
+            ? <Skeleton className="h-64 w-full" />
+            : chargers.map((charger) => (
+                <Card key={charger.evseId} className="border-0 shadow-md overflow-hidden">
+                  <CardHeader className="bg-white border-b border-gray-100">
+                    <CardTitle className="text-[#0a2158]">{charger.location}</CardTitle>
+                    <CardDescription>
+                      {charger.evseId} · {t("analytics.observations", { count: charger.observations })}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="bg-white pt-6 overflow-x-auto">
+                    <table className="border-separate border-spacing-0.5 text-xs">
+                      <thead>
+                        <tr>
+                          <th />
+                          {HOURS.map((hour) => (
+                            <th key={hour} className="w-7 font-normal text-gray-500">{hour}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {charger.buckets.map((day, weekday) => (
+                          <tr key={weekday}>
+                            <th className="pr-2 text-right font-normal text-gray-500">{weekdayLabels[weekday]}</th>
+                            {day.map((bucket, hour) => (
+                              <td
+                                key={hour}
+                                className="h-7 w-7 rounded-sm"
+                                style={getCellStyle(bucket)}
+                                title={getCellTitle(weekday, hour, bucket)}
+                              />
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+              ))}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { getBrowserPoolStats } from "@/lib/providers/browser-pool"
+
+export const dynamic = "force-dynamic"
+
+// Usage of the headless Chromium used by the puppeteer provider
+export async function GET(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  return NextResponse.json(getBrowserPoolStats())
+}
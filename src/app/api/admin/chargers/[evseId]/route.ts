@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { getCharger, retireCharger, updateCharger, RegistryError } from "@/lib/chargers"
+
+interface RouteContext {
+  params: Promise<{ evseId: string }>
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof RegistryError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error)
+  console.error(`Error trying to ${action} charger: ${errorMessage}`)
+  return NextResponse.json({ error: `Failed to ${action} charger`, message: errorMessage }, { status: 500 })
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { evseId } = await params
+  const charger = await getCharger(decodeURIComponent(evseId))
+
+  if (!charger) {
+    return NextResponse.json({ error: `No charger found with id ${evseId}` }, { status: 404 })
+  }
+
+  return NextResponse.json(charger)
+}
+
+// Edit the master data of a charger
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { evseId } = await params
+  try {
+    const body = await request.json().catch(() => null)
+    const charger = await updateCharger(decodeURIComponent(evseId), body)
+    return NextResponse.json(charger)
+  } catch (error: unknown) {
+    return errorResponse(error, "update")
+  }
+}
+
+// Retire a charger; it stays in the registry but is no longer shown or scraped
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { evseId } = await params
+  try {
+    const charger = await retireCharger(decodeURIComponent(evseId))
+    return NextResponse.json(charger)
+  } catch (error: unknown) {
+    return errorResponse(error, "retire")
+  }
+}
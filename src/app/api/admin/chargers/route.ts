@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { createCharger, listChargers, RegistryError } from "@/lib/chargers"
+
+// List all chargers, including retired ones
+export async function GET(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const chargers = await listChargers({ includeRetired: true })
+  return NextResponse.json({ chargers })
+}
+
+// Register a new charger
+export async function POST(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  try {
+    const body = await request.json().catch(() => null)
+    const charger = await createCharger(body)
+    return NextResponse.json(charger, { status: 201 })
+  } catch (error: unknown) {
+    if (error instanceof RegistryError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error creating charger: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to create charger", message: errorMessage }, { status: 500 })
+  }
+}
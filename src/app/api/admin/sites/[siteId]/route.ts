@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+import { deleteSite, SiteError, updateSite } from "@/lib/sites"
+
+interface RouteContext {
+  params: Promise<{ siteId: string }>
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof SiteError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error)
+  console.error(`Error trying to ${action} site: ${errorMessage}`)
+  return NextResponse.json({ error: `Failed to ${action} site`, message: errorMessage }, { status: 500 })
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { siteId } = await params
+  try {
+    const body = await request.json().catch(() => null)
+    const site = await updateSite(decodeURIComponent(siteId), body)
+    return NextResponse.json(site)
+  } catch (error: unknown) {
+    return errorResponse(error, "update")
+  }
+}
+
+// Only empty sites can go; retired chargers count too, their history still points at the site
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const id = decodeURIComponent((await params).siteId)
+  try {
+    const chargers = await listChargers({ includeRetired: true, siteIds: [id] })
+    if (chargers.length > 0) {
+      throw new SiteError(`Site ${id} still has chargers`, 409, chargers.map((charger) => charger.id))
+    }
+    const site = await deleteSite(id)
+    return NextResponse.json(site)
+  } catch (error: unknown) {
+    return errorResponse(error, "delete")
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { createSite, listSites, SiteError } from "@/lib/sites"
+
+export async function GET(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const sites = await listSites()
+  return NextResponse.json({ sites })
+}
+
+// Add a site; chargers are assigned to it via their siteId
+export async function POST(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  try {
+    const body = await request.json().catch(() => null)
+    const site = await createSite(body)
+    return NextResponse.json(site, { status: 201 })
+  } catch (error: unknown) {
+    if (error instanceof SiteError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error creating site: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to create site", message: errorMessage }, { status: 500 })
+  }
+}
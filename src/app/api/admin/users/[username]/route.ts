@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { AuthError, deleteUser, toPublicUser, updateUser } from "@/lib/auth/users"
+
+interface RouteContext {
+  params: Promise<{ username: string }>
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error)
+  console.error(`Error trying to ${action} user: ${errorMessage}`)
+  return NextResponse.json({ error: `Failed to ${action} user`, message: errorMessage }, { status: 500 })
+}
+
+// Change name, role or password, or disable an account
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { username } = await params
+  try {
+    const body = await request.json().catch(() => null)
+    const user = await updateUser(decodeURIComponent(username), body)
+    return NextResponse.json(toPublicUser(user))
+  } catch (error: unknown) {
+    return errorResponse(error, "update")
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { username } = await params
+  try {
+    const user = await deleteUser(decodeURIComponent(username))
+    return NextResponse.json(toPublicUser(user))
+  } catch (error: unknown) {
+    return errorResponse(error, "delete")
+  }
+}
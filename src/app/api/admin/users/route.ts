@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { AuthError, createUser, listUsers, toPublicUser } from "@/lib/auth/users"
+
+// List local accounts, without password hashes
+export async function GET(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const users = await listUsers()
+  return NextResponse.json({ users: users.map(toPublicUser) })
+}
+
+// Create a local account
+export async function POST(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  try {
+    const body = await request.json().catch(() => null)
+    const user = await createUser(body)
+    return NextResponse.json(toPublicUser(user), { status: 201 })
+  } catch (error: unknown) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error creating user: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to create user", message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { ANALYTICS_TIME_ZONE, computeUtilization } from "@/lib/analytics"
+import { siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession, siteError } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+import { getObservations } from "@/lib/history"
+import { parseDateParam } from "@/lib/query-params"
+
+const DEFAULT_WINDOW = 28 * 24 * 60 * 60 * 1000 // last four weeks
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const evseId = searchParams.get("evseId") || undefined
+  const siteId = searchParams.get("siteId") || undefined
+  const to = parseDateParam(searchParams.get("to"))
+  const from = parseDateParam(searchParams.get("from"))
+
+  if (from === null || to === null) {
+    return NextResponse.json({ error: "from and to must be ISO 8601 dates" }, { status: 400 })
+  }
+
+  const user = await getSession(request)
+  const publicSites = await getPublicSites()
+  const forbidden = siteError(user, siteId, publicSites)
+  if (forbidden) return forbidden
+
+  const toDate = to ?? new Date()
+  const fromDate = from ?? new Date(toDate.getTime() - DEFAULT_WINDOW)
+
+  try {
+    const chargers = await listChargers({ siteIds: siteScope(user, siteId, publicSites) })
+    // A single charger only from those in scope; others are as unknown as unregistered ones
+    if (evseId && !chargers.some((charger) => charger.id === evseId)) {
+      return NextResponse.json({ error: `Unknown charger ${evseId}` }, { status: 404 })
+    }
+    const evseIds = evseId ? [evseId] : chargers.map((charger) => charger.id)
+    const observations = await getObservations({ evseIds, from: fromDate, to: toDate })
+
+    return NextResponse.json({
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      timeZone: ANALYTICS_TIME_ZONE,
+      chargers: computeUtilization(observations, evseIds).map((utilization) => ({
+        ...utilization,
+        location: chargers.find((charger) => charger.id === utilization.evseId)?.location ?? utilization.evseId,
+      })),
+    })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error computing utilization: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to compute utilization", message: errorMessage }, { status: 500 })
+  }
+}
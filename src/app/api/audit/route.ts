@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { queryAudit } from "@/lib/audit"
+import { siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession, roleError, siteError } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+import { parseDateParam, parseIntParam } from "@/lib/query-params"
+
+// Manual overrides, filterable by charger (evseId), site (siteId) and user (username)
+export async function GET(request: Request) {
+  const user = await getSession(request)
+  const { searchParams } = new URL(request.url)
+  const siteId = searchParams.get("siteId") || undefined
+  const publicSites = await getPublicSites()
+  const forbidden = roleError(user, "employee") ?? siteError(user, siteId, publicSites)
+  if (forbidden) return forbidden
+
+  const evseId = searchParams.get("evseId") || undefined
+  const username = searchParams.get("user") || undefined
+  const from = parseDateParam(searchParams.get("from"))
+  const to = parseDateParam(searchParams.get("to"))
+  const limit = parseIntParam(searchParams.get("limit"))
+  const offset = parseIntParam(searchParams.get("offset"))
+
+  if (from === null || to === null) {
+    return NextResponse.json({ error: "from and to must be ISO 8601 dates" }, { status: 400 })
+  }
+  if (limit === null || offset === null) {
+    return NextResponse.json({ error: "limit and offset must be non-negative integers" }, { status: 400 })
+  }
+
+  try {
+    const sites = siteScope(user, siteId, publicSites)
+    const evseIds = sites && (await listChargers({ includeRetired: true, siteIds: sites })).map((charger) => charger.id)
+    const page = await queryAudit({ evseId, evseIds, username, from, to, limit, offset })
+    return NextResponse.json(page)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error reading audit log: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to read audit log", message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { setSessionCookie } from "@/lib/auth/session"
+import { authenticate } from "@/lib/auth/users"
+
+interface LoginRequest {
+  username?: string;
+  password?: string;
+}
+
+// Sign in against the local credential store
+export async function POST(request: Request) {
+  try {
+    const { username, password }: LoginRequest = await request.json().catch(() => ({}))
+
+    if (typeof username !== "string" || typeof password !== "string") {
+      return NextResponse.json({ error: "Missing username or password" }, { status: 400 })
+    }
+
+    const user = await authenticate(username, password)
+    if (!user) {
+      return NextResponse.json({ error: "Invalid username or password" }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ user })
+    setSessionCookie(response, user, "local")
+    return response
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error signing in: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to sign in", message: errorMessage }, { status: 500 })
+  }
+}
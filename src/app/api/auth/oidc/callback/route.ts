@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { completeLogin, getRedirectUri, isOidcEnabled, OIDC_STATE_COOKIE, type OidcLoginState } from "@/lib/auth/oidc"
+import { readCookie, setSessionCookie, verifyToken } from "@/lib/auth/session"
+
+// Back from the provider: check the state, create our own session and return to where the user came from
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const failed = (reason: string) => NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(reason)}`, url))
+
+  if (!isOidcEnabled()) {
+    return failed("oidc_disabled")
+  }
+
+  const loginState = verifyToken<OidcLoginState>(readCookie(request, OIDC_STATE_COOKIE))
+  const code = url.searchParams.get("code")
+  if (url.searchParams.get("error")) {
+    return failed(url.searchParams.get("error")!)
+  }
+  if (!loginState || !code || url.searchParams.get("state") !== loginState.state) {
+    return failed("invalid_state")
+  }
+
+  try {
+    const user = await completeLogin(code, loginState.verifier, getRedirectUri(request))
+    const response = NextResponse.redirect(new URL(loginState.next, url))
+    response.cookies.set(OIDC_STATE_COOKIE, "", { path: "/api/auth/oidc", maxAge: 0 })
+    setSessionCookie(response, user, "oidc")
+    return response
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error completing OIDC login: ${errorMessage}`)
+    return failed("oidc_failed")
+  }
+}
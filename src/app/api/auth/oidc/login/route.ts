@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { createAuthorizationRequest, getRedirectUri, isOidcEnabled, OIDC_STATE_COOKIE } from "@/lib/auth/oidc"
+import { signToken } from "@/lib/auth/session"
+
+// The user has this long to finish signing in at the provider
+const STATE_MAX_AGE = 10 * 60
+
+// Only same-site paths, never "//evil.example"
+function safeNext(value: string | null) {
+  return value && value.startsWith("/") && !value.startsWith("//") ? value : "/"
+}
+
+export async function GET(request: Request) {
+  if (!isOidcEnabled()) {
+    return NextResponse.json({ error: "OIDC login is not configured" }, { status: 404 })
+  }
+
+  try {
+    const next = safeNext(new URL(request.url).searchParams.get("next"))
+    const { url, loginState } = await createAuthorizationRequest(getRedirectUri(request), next)
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_STATE_COOKIE, signToken(loginState, STATE_MAX_AGE), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/api/auth/oidc",
+      maxAge: STATE_MAX_AGE,
+    })
+    return response
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error starting OIDC login: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to start OIDC login", message: errorMessage }, { status: 502 })
+  }
+}
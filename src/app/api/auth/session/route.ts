@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { isOidcEnabled } from "@/lib/auth/oidc"
+import { getSession } from "@/lib/auth/session"
+
+export const dynamic = "force-dynamic"
+
+// Who is signed in, and which login methods the login page should offer
+export async function GET(request: Request) {
+  const user = await getSession(request)
+  return NextResponse.json({ user, oidc: isOidcEnabled() })
+}
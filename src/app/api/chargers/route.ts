@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession, siteError } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+
+// Public list of active chargers, used by the dashboard; siteId narrows it to one site,
+// and users bound to sites only get theirs
+export async function GET(request: Request) {
+  const user = await getSession(request)
+  const siteId = new URL(request.url).searchParams.get("siteId") || undefined
+  const publicSites = await getPublicSites()
+  const forbidden = siteError(user, siteId, publicSites)
+  if (forbidden) return forbidden
+
+  const chargers = await listChargers({ siteIds: siteScope(user, siteId, publicSites) })
+  return NextResponse.json({ chargers })
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession, roleError, siteError } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+import {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  exportFileName,
+  isExportDataset,
+  isExportFormat,
+  readExport,
+  toCsv,
+} from "@/lib/export"
+import { localeFromRequest } from "@/lib/i18n/server"
+import { parseDateParam } from "@/lib/query-params"
+
+const DEFAULT_WINDOW = 31 * 24 * 60 * 60 * 1000
+
+// One dataset as a download, for any number of chargers (evseId may repeat) or a whole site
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const dataset = searchParams.get("dataset")
+  const format = searchParams.get("format") || "csv"
+  const siteId = searchParams.get("siteId") || undefined
+  const requested = searchParams.getAll("evseId").filter(Boolean)
+  const from = parseDateParam(searchParams.get("from"))
+  const to = parseDateParam(searchParams.get("to"))
+
+  if (!isExportDataset(dataset)) {
+    return NextResponse.json({ error: `dataset must be one of ${EXPORT_DATASETS.join(", ")}` }, { status: 400 })
+  }
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 })
+  }
+  if (from === null || to === null) {
+    return NextResponse.json({ error: "from and to must be ISO 8601 dates" }, { status: 400 })
+  }
+
+  const toDate = to ?? new Date()
+  const fromDate = from ?? new Date(toDate.getTime() - DEFAULT_WINDOW)
+  if (fromDate >= toDate) {
+    return NextResponse.json({ error: "from must be before to" }, { status: 400 })
+  }
+
+  const user = await getSession(request)
+  // Overrides name the employees who set them, like the audit log
+  const publicSites = await getPublicSites()
+  const forbidden = (dataset === "overrides" ? roleError(user, "employee") : null) ?? siteError(user, siteId, publicSites)
+  if (forbidden) return forbidden
+
+  try {
+    // Retired chargers keep their history
+    const chargers = (await listChargers({ includeRetired: true, siteIds: siteScope(user, siteId, publicSites) })).filter(
+      (charger) => requested.length === 0 || requested.includes(charger.id),
+    )
+    const data = await readExport({ dataset, chargers, from: fromDate, to: toDate })
+    const headers = {
+      "Content-Disposition": `attachment; filename="${exportFileName(dataset, format, fromDate, toDate)}"`,
+    }
+
+    if (format === "json") {
+      return NextResponse.json({ from: fromDate.toISOString(), to: toDate.toISOString(), ...data }, { headers })
+    }
+    return new NextResponse(toCsv(data, chargers, localeFromRequest(request)), {
+      headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+    })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error exporting ${dataset}: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to export data", message: errorMessage }, { status: 500 })
+  }
+}
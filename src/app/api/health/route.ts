@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+// Liveness: the process answers requests. Deliberately checks nothing else, so a
+// failing upstream never gets the server restarted.
+export function GET() {
+  return NextResponse.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) })
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { getPublicSites, getSession, siteError } from "@/lib/auth/session"
+import { getCharger } from "@/lib/chargers"
+import { getObservations } from "@/lib/history"
+import { parseDateParam } from "@/lib/query-params"
+import { buildTimeline } from "@/lib/timeline"
+
+const DEFAULT_WINDOW = 7 * 24 * 60 * 60 * 1000 // last week
+const MAX_WINDOW = 31 * 24 * 60 * 60 * 1000
+
+// Status segments of one charger, for the timeline on its detail page
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const evseId = searchParams.get("evseId")
+  const to = parseDateParam(searchParams.get("to"))
+  const from = parseDateParam(searchParams.get("from"))
+
+  if (!evseId) {
+    return NextResponse.json({ error: "Missing evseId parameter" }, { status: 400 })
+  }
+  if (from === null || to === null) {
+    return NextResponse.json({ error: "from and to must be ISO 8601 dates" }, { status: 400 })
+  }
+
+  const toDate = to ?? new Date()
+  const fromDate = from ?? new Date(toDate.getTime() - DEFAULT_WINDOW)
+  if (fromDate >= toDate || toDate.getTime() - fromDate.getTime() > MAX_WINDOW) {
+    return NextResponse.json({ error: "from must be before to and at most 31 days apart" }, { status: 400 })
+  }
+
+  try {
+    // Retired chargers keep their history
+    const charger = await getCharger(evseId)
+    if (!charger) {
+      return NextResponse.json({ error: `Unknown charger ${evseId}` }, { status: 404 })
+    }
+
+    const forbidden = siteError(await getSession(request), charger.siteId, await getPublicSites())
+    if (forbidden) return forbidden
+
+    const observations = await getObservations({ evseId, from: fromDate, to: toDate })
+    return NextResponse.json({
+      evseId,
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      segments: buildTimeline(observations, fromDate, toDate),
+    })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error building status timeline: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to build status timeline", message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+import { getCachedStatus } from "@/lib/charger-status"
+import { listChargers } from "@/lib/chargers"
+import { renderMetrics } from "@/lib/metrics"
+
+// Without a token the endpoint is open, as usual for an on-prem Prometheus
+const METRICS_TOKEN = process.env.METRICS_TOKEN || ""
+
+function isAuthorized(request: Request) {
+  if (!METRICS_TOKEN) return true
+  const presented = Buffer.from((request.headers.get("authorization") || "").replace(/^Bearer\s+/i, ""))
+  const expected = Buffer.from(METRICS_TOKEN)
+  return presented.length === expected.length && timingSafeEqual(presented, expected)
+}
+
+// Prometheus text format for scraping
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Invalid metrics token" }, { status: 401 })
+  }
+
+  try {
+    const chargers = (await listChargers()).map((charger) => ({
+      evseId: charger.id,
+      siteId: charger.siteId,
+      status: getCachedStatus(charger.id)?.data.status ?? "unknown",
+    }))
+    return new NextResponse(renderMetrics(chargers), {
+      headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+    })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error rendering metrics: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to render metrics", message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { checkAuthorization, ocpiError, ocpiResponse } from "@/lib/ocpi/http"
+import { getLocation } from "@/lib/ocpi/locations"
+import { OCPI_UNKNOWN_LOCATION } from "@/lib/ocpi/types"
+
+export const dynamic = "force-dynamic"
+
+interface RouteContext {
+  params: Promise<{ locationId: string; evseUid: string; connectorId: string }>
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const unauthorized = checkAuthorization(request)
+  if (unauthorized) return unauthorized
+
+  const { locationId, evseUid, connectorId } = await params
+  const location = await getLocation(decodeURIComponent(locationId))
+  const evse = location?.evses.find((entry) => entry.uid === decodeURIComponent(evseUid))
+  const connector = evse?.connectors.find((entry) => entry.id === connectorId)
+  if (!connector) {
+    return ocpiError(request, 404, OCPI_UNKNOWN_LOCATION, `Unknown connector ${connectorId} of EVSE ${evseUid}`)
+  }
+
+  return ocpiResponse(request, connector)
+}
@@ -0,0 +1,23 @@
+import { checkAuthorization, ocpiError, ocpiResponse } from "@/lib/ocpi/http"
+import { getLocation } from "@/lib/ocpi/locations"
+import { OCPI_UNKNOWN_LOCATION } from "@/lib/ocpi/types"
+
+export const dynamic = "force-dynamic"
+
+interface RouteContext {
+  params: Promise<{ locationId: string; evseUid: string }>
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const unauthorized = checkAuthorization(request)
+  if (unauthorized) return unauthorized
+
+  const { locationId, evseUid } = await params
+  const location = await getLocation(decodeURIComponent(locationId))
+  const evse = location?.evses.find((entry) => entry.uid === decodeURIComponent(evseUid))
+  if (!evse) {
+    return ocpiError(request, 404, OCPI_UNKNOWN_LOCATION, `Unknown EVSE ${evseUid} at location ${locationId}`)
+  }
+
+  return ocpiResponse(request, evse)
+}
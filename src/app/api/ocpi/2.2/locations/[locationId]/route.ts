@@ -0,0 +1,22 @@
+import { checkAuthorization, ocpiError, ocpiResponse } from "@/lib/ocpi/http"
+import { getLocation } from "@/lib/ocpi/locations"
+import { OCPI_UNKNOWN_LOCATION } from "@/lib/ocpi/types"
+
+export const dynamic = "force-dynamic"
+
+interface RouteContext {
+  params: Promise<{ locationId: string }>
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const unauthorized = checkAuthorization(request)
+  if (unauthorized) return unauthorized
+
+  const { locationId } = await params
+  const location = await getLocation(decodeURIComponent(locationId))
+  if (!location) {
+    return ocpiError(request, 404, OCPI_UNKNOWN_LOCATION, `Unknown location ${locationId}`)
+  }
+
+  return ocpiResponse(request, location)
+}
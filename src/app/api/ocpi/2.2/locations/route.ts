@@ -0,0 +1,48 @@
+import { checkAuthorization, ocpiError, ocpiResponse } from "@/lib/ocpi/http"
+import { getLocations } from "@/lib/ocpi/locations"
+import { OCPI_INVALID_PARAMETERS } from "@/lib/ocpi/types"
+import { parseDateParam, parseIntParam } from "@/lib/query-params"
+
+export const dynamic = "force-dynamic"
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+
+// OCPI 2.2 Locations, Sender interface: paginated list
+export async function GET(request: Request) {
+  const unauthorized = checkAuthorization(request)
+  if (unauthorized) return unauthorized
+
+  const url = new URL(request.url)
+  const dateFrom = parseDateParam(url.searchParams.get("date_from"))
+  const dateTo = parseDateParam(url.searchParams.get("date_to"))
+  const offset = parseIntParam(url.searchParams.get("offset"))
+  const limit = parseIntParam(url.searchParams.get("limit"))
+
+  if (dateFrom === null || dateTo === null || offset === null || limit === null) {
+    return ocpiError(request, 400, OCPI_INVALID_PARAMETERS, "Invalid date_from, date_to, offset or limit")
+  }
+
+  // Only objects last updated in [date_from, date_to) are returned
+  const matches = (await getLocations()).filter((location) => {
+    const updated = new Date(location.last_updated).getTime()
+    return (!dateFrom || updated >= dateFrom.getTime()) && (!dateTo || updated < dateTo.getTime())
+  })
+
+  const start = offset ?? 0
+  const pageSize = Math.min(limit || DEFAULT_LIMIT, MAX_LIMIT)
+  const page = matches.slice(start, start + pageSize)
+
+  const headers: Record<string, string> = {
+    "X-Total-Count": String(matches.length),
+    "X-Limit": String(MAX_LIMIT),
+  }
+  if (start + page.length < matches.length) {
+    const next = new URL(url)
+    next.searchParams.set("offset", String(start + page.length))
+    next.searchParams.set("limit", String(pageSize))
+    headers["Link"] = `<${next.toString()}>; rel="next"`
+  }
+
+  return ocpiResponse(request, page, headers)
+}
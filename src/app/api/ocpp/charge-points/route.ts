@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { isOnline, listChargePoints } from "@/lib/ocpp/central-system"
+
+export const dynamic = "force-dynamic"
+
+// Telemetry of every charge point that has connected over OCPP since startup, for admins.
+// The RFID tokens (idTag) that started transactions belong to customers and are left out.
+export async function GET(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const chargePoints = listChargePoints().map((chargePoint) => ({
+    ...chargePoint,
+    transactions: chargePoint.transactions.map((transaction) => ({
+      transactionId: transaction.transactionId,
+      connectorId: transaction.connectorId,
+      meterStart: transaction.meterStart,
+      startedAt: transaction.startedAt,
+      meterStop: transaction.meterStop,
+      stoppedAt: transaction.stoppedAt,
+      stopReason: transaction.stopReason,
+    })),
+    online: isOnline(chargePoint),
+  }))
+  return NextResponse.json({ chargePoints })
+}
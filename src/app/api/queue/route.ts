@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server"
+import { siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession, siteError } from "@/lib/auth/session"
+import { DEFAULT_SITE_ID } from "@/lib/sites"
+import {
+  acceptClaim,
+  getWaitlistState,
+  joinWaitlist,
+  leaveWaitlist,
+  scopeWaitlist,
+  skipClaim,
+  WaitlistError,
+} from "@/lib/waitlist"
+
+export const dynamic = "force-dynamic"
+
+interface QueueRequest {
+  action: "join" | "leave" | "accept" | "skip";
+  name?: string;
+  clientId?: string;
+  // Line to join; dashboards from before sites existed send none
+  siteId?: string;
+}
+
+// Lines of the sites the caller may see, or of the one in siteId
+export async function GET(request: Request) {
+  const siteId = new URL(request.url).searchParams.get("siteId") || undefined
+  const user = await getSession(request)
+  const publicSites = await getPublicSites()
+  const forbidden = siteError(user, siteId, publicSites)
+  if (forbidden) return forbidden
+
+  return NextResponse.json(scopeWaitlist(getWaitlistState(), siteScope(user, siteId, publicSites)))
+}
+
+export async function POST(request: Request) {
+  try {
+    const body: QueueRequest | null = await request.json().catch(() => null)
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 })
+    }
+    const { action, name, clientId, siteId = DEFAULT_SITE_ID } = body
+
+    if (!clientId) {
+      return NextResponse.json({ error: "Missing clientId" }, { status: 400 })
+    }
+
+    const user = await getSession(request)
+    const publicSites = await getPublicSites()
+    // Names in other sites' lines are none of the caller's business
+    const visible = () => scopeWaitlist(getWaitlistState(), siteScope(user, undefined, publicSites))
+
+    switch (action) {
+      case "join": {
+        const forbidden = siteError(user, siteId, publicSites)
+        if (forbidden) return forbidden
+        const entry = await joinWaitlist(name, clientId, siteId)
+        return NextResponse.json({ entryId: entry.id, ...visible() }, { status: 201 })
+      }
+      case "leave":
+        leaveWaitlist(clientId)
+        break
+      case "accept": {
+        const evseId = acceptClaim(clientId)
+        return NextResponse.json({ evseId, ...visible() })
+      }
+      case "skip":
+        skipClaim(clientId)
+        break
+      default:
+        return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+    }
+
+    return NextResponse.json(visible())
+  } catch (error: unknown) {
+    if (error instanceof WaitlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error updating queue: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to update queue", message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession } from "@/lib/auth/session"
+import { checkReadiness, summarizeReadiness } from "@/lib/health"
+import { getSchedulerState } from "@/lib/scheduler"
+
+export const dynamic = "force-dynamic"
+
+// Readiness with diagnostics. A degraded upstream still answers 200: the dashboard keeps
+// serving the last known statuses. 503 only if the scheduler is not running or the
+// charger registry cannot be read. Visitors without a login only learn the status and
+// problem codes; the details, per charger limited to the user's sites, need a session.
+export async function GET(request: Request) {
+  if (!getSchedulerState().started) {
+    return NextResponse.json({ status: "starting", message: "The status scheduler has not started yet" }, { status: 503 })
+  }
+
+  try {
+    const user = await getSession(request)
+    if (!user) {
+      return NextResponse.json(summarizeReadiness(await checkReadiness()))
+    }
+    return NextResponse.json(await checkReadiness(siteScope(user, undefined, await getPublicSites())))
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error checking readiness: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to check readiness", message: errorMessage }, { status: 503 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession, siteError } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+import { parseDateParam, parseIntParam } from "@/lib/query-params"
+import { querySessions } from "@/lib/sessions"
+
+// Charging sessions derived from the status history, newest first
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const evseId = searchParams.get("evseId") || undefined
+  const siteId = searchParams.get("siteId") || undefined
+  const from = parseDateParam(searchParams.get("from"))
+  const to = parseDateParam(searchParams.get("to"))
+  const limit = parseIntParam(searchParams.get("limit"))
+  const offset = parseIntParam(searchParams.get("offset"))
+  const perCharger = parseIntParam(searchParams.get("perCharger"))
+
+  if (from === null || to === null) {
+    return NextResponse.json({ error: "from and to must be ISO 8601 dates" }, { status: 400 })
+  }
+  if (limit === null || offset === null || perCharger === null) {
+    return NextResponse.json({ error: "limit, offset and perCharger must be non-negative integers" }, { status: 400 })
+  }
+
+  const user = await getSession(request)
+  const publicSites = await getPublicSites()
+  const forbidden = siteError(user, siteId, publicSites)
+  if (forbidden) return forbidden
+
+  try {
+    const sites = siteScope(user, siteId, publicSites)
+    // Retired chargers keep their sessions
+    const evseIds = sites && (await listChargers({ includeRetired: true, siteIds: sites })).map((charger) => charger.id)
+    const page = await querySessions({ evseId, evseIds, from, to, perCharger, limit, offset })
+    return NextResponse.json(page)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error deriving charging sessions: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to derive charging sessions", message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { getPublicSites, getSession, siteError } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+import { getSite } from "@/lib/sites"
+
+interface RouteContext {
+  params: Promise<{ siteId: string }>
+}
+
+// One site with its active chargers
+export async function GET(request: Request, { params }: RouteContext) {
+  const siteId = decodeURIComponent((await params).siteId)
+  const forbidden = siteError(await getSession(request), siteId, await getPublicSites())
+  if (forbidden) return forbidden
+
+  const site = await getSite(siteId)
+  if (!site) {
+    return NextResponse.json({ error: `No site found with id ${siteId}` }, { status: 404 })
+  }
+
+  const chargers = await listChargers({ siteIds: [siteId] })
+  return NextResponse.json({ ...site, chargers })
+}
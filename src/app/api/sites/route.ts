@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { canAccessSite } from "@/lib/auth/roles"
+import { getPublicSites, getSession } from "@/lib/auth/session"
+import { listChargers } from "@/lib/chargers"
+import { listSites } from "@/lib/sites"
+
+// Sites the caller may see, with the ids of their active chargers, for the site switcher
+export async function GET(request: Request) {
+  const user = await getSession(request)
+  const publicSites = await getPublicSites()
+  const chargers = await listChargers()
+  const sites = (await listSites())
+    .filter((site) => canAccessSite(user, site.id, publicSites))
+    .map((site) => ({
+      ...site,
+      chargerIds: chargers.filter((charger) => charger.siteId === site.id).map((charger) => charger.id),
+    }))
+  return NextResponse.json({ sites })
+}
@@ -0,0 +1,77 @@
+import { canAccessSite, siteScope } from "@/lib/auth/roles"
+import { getPublicSites, getSession } from "@/lib/auth/session"
+import { getCachedStatuses, localizeStatus, type ChargerStatusData } from "@/lib/charger-status"
+import { localeFromRequest } from "@/lib/i18n/server"
+import { subscribe } from "@/lib/status-events"
+import { getWaitlistState, scopeWaitlist, subscribeWaitlist } from "@/lib/waitlist"
+
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL = 15 * 1000
+const RECONNECT_DELAY = 5 * 1000
+
+// Server-Sent Events stream of every fresh charger status from the scheduler
+// and of changes to the waitlist, limited to the sites the client may see
+export async function GET(request: Request) {
+  const encoder = new TextEncoder()
+  // statusText follows the language the client connected with
+  const locale = localeFromRequest(request)
+  // Access is decided once per connection; logging in or out reloads the page and with it the stream
+  const user = await getSession(request)
+  const publicSites = await getPublicSites()
+  const visible = (data: ChargerStatusData) => canAccessSite(user, data.siteId, publicSites)
+  const sites = siteScope(user, undefined, publicSites)
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // The client went away between the check and the write
+          cleanup()
+        }
+      }
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      write(`retry: ${RECONNECT_DELAY}\n\n`)
+      send("snapshot", getCachedStatuses().filter(visible).map((data) => localizeStatus(data, locale)))
+      send("queue", scopeWaitlist(getWaitlistState(), sites))
+
+      const unsubscribeStatus = subscribe((data) => {
+        if (visible(data)) send("status", localizeStatus(data, locale))
+      })
+      const unsubscribeQueue = subscribeWaitlist((waitlist) => send("queue", scopeWaitlist(waitlist, sites)))
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(": heartbeat\n\n"), HEARTBEAT_INTERVAL)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribeStatus()
+        unsubscribeQueue()
+      }
+
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
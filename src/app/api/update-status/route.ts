@@ -1,71 +1,110 @@
 import { NextResponse } from "next/server"
+import { MAX_REASON_LENGTH, recordOverride } from "@/lib/audit"
+import { canSetStatus, MANUAL_STATUSES } from "@/lib/auth/roles"
+import { getPublicSites, getSession, roleError, siteError } from "@/lib/auth/session"
+import { applyOverride, getCachedStatus, pendingStatus } from "@/lib/charger-status"
+import { getActiveCharger } from "@/lib/chargers"
+import { clearOverride, DEFAULT_OVERRIDE_TTL, getOverride, MAX_OVERRIDE_TTL, OVERRIDE_POLICIES, restoreOverride, setOverride, type OverridePolicy } from "@/lib/overrides"
+import { allowedTransitions, canTransition, type ChargerStatus } from "@/lib/status"
 
-// We need to import and use the same cache from the charger API
-// In a real-world application, this would be a database or shared cache
-// For this example, we'll simulate the cache since we can't easily share it between files
-interface CacheEntry {
-  data: Record<string, unknown>;
-  timestamp: number;
+interface UpdateStatusRequest {
+  evseId: string;
+  status: ChargerStatus;
+  reason: string;
+  // "until-change" (default) ends when the observed status moves, "ttl" after ttlMinutes
+  policy?: OverridePolicy;
+  ttlMinutes?: number;
 }
 
-const cache: Record<string, CacheEntry> = {};
-
-interface UpdateStatusRequest {
+interface ClearOverrideRequest {
   evseId: string;
-  status: string;
+  reason?: string;
 }
 
+// Manually override the status of a charger until it expires or is reconciled with the observed status
 export async function POST(request: Request) {
+  const user = await getSession(request)
+  const forbidden = roleError(user, "employee")
+  if (forbidden) return forbidden
+
   try {
-    const data: UpdateStatusRequest = await request.json()
-    const { evseId, status } = data
+    const data: UpdateStatusRequest | null = await request.json().catch(() => null)
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 })
+    }
+    const { evseId, status, policy = "until-change", ttlMinutes } = data
+    const reason = typeof data.reason === "string" ? data.reason.trim() : ""
 
-    if (!evseId || !status) {
+    if (!evseId || !status || !reason) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
     }
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json({ error: `reason must be at most ${MAX_REASON_LENGTH} characters` }, { status: 400 })
+    }
+
+    if (!MANUAL_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of ${MANUAL_STATUSES.join(", ")}` }, { status: 400 })
+    }
+    if (!OVERRIDE_POLICIES.includes(policy)) {
+      return NextResponse.json({ error: `policy must be one of ${OVERRIDE_POLICIES.join(", ")}` }, { status: 400 })
+    }
+    const maxMinutes = MAX_OVERRIDE_TTL / 60000
+    if (ttlMinutes !== undefined && (!Number.isInteger(ttlMinutes) || ttlMinutes < 1 || ttlMinutes > maxMinutes)) {
+      return NextResponse.json({ error: `ttlMinutes must be an integer between 1 and ${maxMinutes}` }, { status: 400 })
+    }
+    if (!canSetStatus(user!.role, status)) {
+      return NextResponse.json({ error: `Your role may not set the status ${status}` }, { status: 403 })
+    }
 
-    // Validate status
-    const validStatuses = ["available", "charging", "error", "maintenance"]
-    if (!validStatuses.includes(status)) {
-      return NextResponse.json({ error: "Invalid status value" }, { status: 400 })
+    const charger = await getActiveCharger(evseId)
+    if (!charger) {
+      return NextResponse.json({ error: `Unknown charger ${evseId}` }, { status: 404 })
     }
+    const otherSite = siteError(user, charger.siteId, await getPublicSites())
+    if (otherSite) return otherSite
 
-    // Invalidate the cache for this charger
-    const cacheKey = `charger_${evseId}`;
-    delete cache[cacheKey];
-    
-    // In a real implementation, we would send this status update to the charger
-    // For this simulation, we'll just assume it worked
-    
-    // Create a mock response with the updated status
-    const updatedData = {
-      evseId,
-      status,
-      location: `Charger ${evseId}`,
-      operator: "AUG. PRIEN Bauunternehmung (GmbH & Co. KG)",
-      address: "Dampfschiffweg 2, 21079 Hamburg",
-      plugType: "Type 2 (Mennekes) (max. 22 kW)",
-      power: "22 kW",
-      lastUpdated: new Date().toISOString(),
-      isRealTime: true,
-      manuallyUpdated: true
-    };
-    
-    // Store in cache with current timestamp
-    cache[cacheKey] = {
-      data: updatedData,
-      timestamp: Date.now()
-    };
+    const cached = getCachedStatus(evseId)
+    const previousStatus = cached?.data.status ?? "unknown"
+    // Staff may know better than the last scrape, so an unusual transition is only pointed out
+    const warning = canTransition(previousStatus, status)
+      ? undefined
+      : `Chargers do not normally go from ${previousStatus} to ${status}; allowed: ${allowedTransitions(previousStatus).join(", ")}`
+    if (warning) console.warn(`Override of ${evseId} by ${user!.username}: ${warning}`)
+
+    const replaced = await getOverride(evseId)
+    await setOverride(
+      {
+        evseId,
+        status,
+        policy,
+        username: user!.username,
+        name: user!.name,
+        reason,
+        baselineStatus: cached?.observed.status ?? null,
+      },
+      policy === "ttl" ? (ttlMinutes ? ttlMinutes * 60000 : DEFAULT_OVERRIDE_TTL) : MAX_OVERRIDE_TTL,
+    )
+    // Only an override that was stored gets an audit entry, and one that cannot be audited is taken back
+    const auditEntry = await recordOverride(user!, { evseId, previousStatus, newStatus: status, reason }).catch(
+      async (error: unknown) => {
+        await restoreOverride(evseId, replaced)
+        throw error
+      },
+    )
+    const updatedData = await applyOverride(charger)
 
     return NextResponse.json({
       success: true,
       message: "Status updated successfully",
-      ...updatedData
+      ...updatedData,
+      updatedBy: user!.username,
+      auditId: auditEntry.id,
+      warning,
     })
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Error updating status: ${errorMessage}`);
-    
+
     return NextResponse.json(
       { success: false, message: `Failed to update status: ${errorMessage}` },
       { status: 500 }
@@ -73,7 +112,64 @@ export async function POST(request: Request) {
   }
 }
 
-// Also allow GET requests to retrieve the current status
+// Lift an override early so the observed status shows again
+export async function DELETE(request: Request) {
+  const user = await getSession(request)
+  const forbidden = roleError(user, "employee")
+  if (forbidden) return forbidden
+
+  try {
+    const data: ClearOverrideRequest | null = await request.json().catch(() => null)
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 })
+    }
+    const reason = typeof data.reason === "string" && data.reason.trim() ? data.reason.trim() : "Überschreibung aufgehoben"
+
+    if (!data.evseId) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    const charger = await getActiveCharger(data.evseId)
+    if (!charger) {
+      return NextResponse.json({ error: `Unknown charger ${data.evseId}` }, { status: 404 })
+    }
+    const otherSite = siteError(user, charger.siteId, await getPublicSites())
+    if (otherSite) return otherSite
+
+    const override = await getOverride(charger.id)
+    if (!override) {
+      return NextResponse.json({ error: `No active override for ${charger.id}` }, { status: 404 })
+    }
+    // Whoever may not set a status may not lift it either
+    if (!canSetStatus(user!.role, override.status)) {
+      return NextResponse.json({ error: `Your role may not change the status ${override.status}` }, { status: 403 })
+    }
+
+    await clearOverride(charger.id)
+    const updatedData = await applyOverride(charger)
+    try {
+      await recordOverride(user!, {
+        evseId: charger.id,
+        previousStatus: override.status,
+        newStatus: updatedData.status,
+        reason: reason.slice(0, MAX_REASON_LENGTH),
+      })
+    } catch (error) {
+      // Lifting an override nobody can account for must not happen either
+      await restoreOverride(charger.id, override)
+      await applyOverride(charger)
+      throw error
+    }
+
+    return NextResponse.json({ success: true, message: "Override cleared", ...updatedData })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error clearing override: ${errorMessage}`)
+    return NextResponse.json({ success: false, message: `Failed to clear override: ${errorMessage}` }, { status: 500 })
+  }
+}
+
+// Also allow GET requests to retrieve the current status, including an active override
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url)
   const evseId = searchParams.get("evseId")
@@ -82,28 +178,13 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: "Missing evseId parameter" }, { status: 400 })
   }
 
-  // Check for this charger in the cache
-  const cacheKey = `charger_${evseId}`;
-  const cachedData = cache[cacheKey];
-  
-  if (cachedData) {
-    return NextResponse.json({
-      ...cachedData.data,
-      fromCache: true
-    });
+  const charger = await getActiveCharger(evseId)
+  if (!charger) {
+    return NextResponse.json({ error: `Unknown charger ${evseId}` }, { status: 404 })
   }
-  
-  // If not in cache, respond with default status
-  return NextResponse.json({
-    evseId,
-    status: "available", // Default to available for better UX
-    location: `Charger ${evseId}`,
-    operator: "AUG. PRIEN Bauunternehmung (GmbH & Co. KG)",
-    address: "Dampfschiffweg 2, 21079 Hamburg",
-    plugType: "Type 2 (Mennekes) (max. 22 kW)",
-    power: "22 kW",
-    lastUpdated: new Date().toISOString(),
-    isRealTime: false
-  });
-}
+  const otherSite = siteError(await getSession(request), charger.siteId, await getPublicSites())
+  if (otherSite) return otherSite
 
+  const cached = getCachedStatus(evseId)
+  return NextResponse.json(cached ? { ...cached.data, fromCache: true } : pendingStatus(charger))
+}
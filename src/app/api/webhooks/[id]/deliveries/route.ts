@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { parseIntParam } from "@/lib/query-params"
+import { DEFAULT_DELIVERY_LIMIT, getDeliveries, getSubscription } from "@/lib/webhooks"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Delivery log of a subscription, newest attempt first
+export async function GET(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+  const limit = parseIntParam(searchParams.get("limit"))
+
+  if (limit === null) {
+    return NextResponse.json({ error: "limit must be a non-negative integer" }, { status: 400 })
+  }
+
+  try {
+    if (!(await getSubscription(id))) {
+      return NextResponse.json({ error: `No webhook subscription found with id ${id}` }, { status: 404 })
+    }
+    const deliveries = await getDeliveries(id, limit ?? DEFAULT_DELIVERY_LIMIT)
+    return NextResponse.json({ deliveries })
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error reading webhook deliveries: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to read webhook deliveries", message: errorMessage }, { status: 500 })
+  }
+}
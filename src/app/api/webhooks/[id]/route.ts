@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { deleteSubscription, getSubscription, toPublicSubscription, updateSubscription, WebhookError } from "@/lib/webhooks"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof WebhookError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error)
+  console.error(`Error trying to ${action} webhook subscription: ${errorMessage}`)
+  return NextResponse.json({ error: `Failed to ${action} webhook subscription`, message: errorMessage }, { status: 500 })
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { id } = await params
+  const subscription = await getSubscription(id)
+
+  if (!subscription) {
+    return NextResponse.json({ error: `No webhook subscription found with id ${id}` }, { status: 404 })
+  }
+
+  return NextResponse.json(toPublicSubscription(subscription))
+}
+
+// Change the URL, filters, secret or pause a subscription
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { id } = await params
+  try {
+    const body = await request.json().catch(() => null)
+    const subscription = await updateSubscription(id, body)
+    return NextResponse.json(toPublicSubscription(subscription))
+  } catch (error: unknown) {
+    return errorResponse(error, "update")
+  }
+}
+
+// Remove a subscription; pending retries for it are dropped
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const { id } = await params
+  try {
+    const subscription = await deleteSubscription(id)
+    return NextResponse.json(toPublicSubscription(subscription))
+  } catch (error: unknown) {
+    return errorResponse(error, "delete")
+  }
+}
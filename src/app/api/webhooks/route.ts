@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { checkRole } from "@/lib/auth/session"
+import { createSubscription, listSubscriptions, toPublicSubscription, WebhookError } from "@/lib/webhooks"
+
+// List webhook subscriptions, without their secrets
+export async function GET(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  const subscriptions = await listSubscriptions()
+  return NextResponse.json({ subscriptions: subscriptions.map(toPublicSubscription) })
+}
+
+// Subscribe a URL to status transitions; the response is the only place the secret is shown
+export async function POST(request: Request) {
+  const forbidden = await checkRole(request, "admin")
+  if (forbidden) return forbidden
+
+  try {
+    const body = await request.json().catch(() => null)
+    const subscription = await createSubscription(body)
+    return NextResponse.json(subscription, { status: 201 })
+  } catch (error: unknown) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error creating webhook subscription: ${errorMessage}`)
+    return NextResponse.json({ error: "Failed to create webhook subscription", message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,189 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useI18n } from "@/components/i18n-provider"
+import { LocaleSwitcher } from "@/components/locale-switcher"
+import { ArrowLeft, RefreshCw } from "lucide-react"
+
+interface AuditEntry {
+  id: string
+  evseId: string
+  username: string
+  name: string
+  role: string
+  previousStatus: string
+  newStatus: string
+  reason: string
+  timestamp: string
+}
+
+interface RegisteredCharger {
+  id: string
+  location: string
+}
+
+const PAGE_SIZE = 50
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [chargers, setChargers] = useState<RegisteredCharger[]>([])
+  const [evseId, setEvseId] = useState("")
+  const [user, setUser] = useState("")
+  const [nextOffset, setNextOffset] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { t, statusLabel, formatDateTime } = useI18n()
+
+  useEffect(() => {
+    fetch("/api/chargers")
+      .then((response) => response.json())
+      .then((data) => setChargers(data.chargers))
+      .catch((error) => console.error("Error fetching chargers:", error))
+  }, [])
+
+  const fetchEntries = async (offset = 0) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      if (evseId) params.set("evseId", evseId)
+      if (user.trim()) params.set("user", user.trim())
+
+      const response = await fetch(`/api/audit?${params}`)
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(t("audit.forbidden"))
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch audit log: ${response.statusText}`)
+      }
+      const data = await response.json()
+      setEntries((current) => (offset === 0 ? data.items : [...current, ...data.items]))
+      setNextOffset(data.nextOffset)
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error("Error fetching audit log:", errorMessage)
+      setError(errorMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEntries()
+  }, [evseId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const locationOf = (id: string) => chargers.find((charger) => charger.id === id)?.location ?? id
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-8">
+      <div className="container px-4 mx-auto">
+        <div className="flex flex-col items-center mb-8">
+          <h1 className="text-3xl font-bold text-[#0a2158] text-center">{t("audit.title")}</h1>
+          <p className="text-gray-600 mt-2 text-center max-w-2xl">
+            {t("audit.subtitle")}
+          </p>
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            <Link href="/">
+              <Button variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {t("nav.dashboard")}
+              </Button>
+            </Link>
+            <LocaleSwitcher />
+          </div>
+        </div>
+
+        <Card className="border-0 shadow-md overflow-hidden">
+          <CardHeader className="bg-white border-b border-gray-100">
+            <CardTitle className="text-[#0a2158]">{t("audit.entries")}</CardTitle>
+            <CardDescription>{t("audit.newestFirst")}</CardDescription>
+            <form
+              className="mt-2 flex flex-col gap-2 sm:flex-row"
+              onSubmit={(event) => {
+                event.preventDefault()
+                fetchEntries()
+              }}
+            >
+              <select
+                value={evseId}
+                onChange={(event) => setEvseId(event.target.value)}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="">{t("audit.allChargers")}</option>
+                {chargers.map((charger) => (
+                  <option key={charger.id} value={charger.id}>
+                    {charger.location}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={user}
+                onChange={(event) => setUser(event.target.value)}
+                placeholder={t("audit.userPlaceholder")}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0a2158]"
+              />
+              <Button type="submit" disabled={loading} className="bg-[#0a2158] hover:bg-[#0a2158]/90">
+                <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+                {t("audit.filter")}
+              </Button>
+            </form>
+          </CardHeader>
+          <CardContent className="bg-white pt-6 overflow-x-auto">
+            {error ? (
+              <p className="text-sm text-red-600">
+                {error} <Link href="/login?next=/audit" className="underline">{t("nav.login")}</Link>
+              </p>
+            ) : loading && entries.length === 0 ? (
+              <Skeleton className="h-32 w-full" />
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-gray-600">{t("audit.empty")}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-normal">{t("audit.time")}</th>
+                    <th className="py-2 pr-4 font-normal">{t("audit.charger")}</th>
+                    <th className="py-2 pr-4 font-normal">{t("audit.user")}</th>
+                    <th className="py-2 pr-4 font-normal">{t("audit.change")}</th>
+                    <th className="py-2 font-normal">{t("audit.reason")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-t border-gray-100 align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(entry.timestamp, { dateStyle: "short", timeStyle: "medium" })}</td>
+                      <td className="py-2 pr-4">{locationOf(entry.evseId)}</td>
+                      <td className="py-2 pr-4">
+                        {entry.name} <span className="text-gray-500">({entry.username})</span>
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {statusLabel(entry.previousStatus)} → {statusLabel(entry.newStatus)}
+                      </td>
+                      <td className="py-2">{entry.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {nextOffset !== null && !error && (
+              <div className="mt-4 flex justify-center">
+                <Button
+                  variant="outline"
+                  disabled={loading}
+                  onClick={() => fetchEntries(nextOffset)}
+                  className="border-[#0a2158] text-[#0a2158]"
+                >
+                  {t("common.loadMore")}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
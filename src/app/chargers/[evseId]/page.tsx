@@ -0,0 +1,11 @@
+import { ChargerDetails } from "@/components/charger-details"
+
+interface ChargerPageProps {
+  params: Promise<{ evseId: string }>
+}
+
+// Everything we know about one charger, e.g. /chargers/DE*MDS*E006234
+export default async function ChargerPage({ params }: ChargerPageProps) {
+  const { evseId } = await params
+  return <ChargerDetails evseId={decodeURIComponent(evseId)} />
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/components/i18n-provider"
+import { LocaleSwitcher } from "@/components/locale-switcher"
+import { useSession } from "@/hooks/use-session"
+import type { MessageKey } from "@/lib/i18n"
+import { ArrowLeft, LogIn } from "lucide-react"
+
+// Reasons the OIDC callback redirects back here with
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  invalid_state: "login.error.invalid_state",
+  oidc_failed: "login.error.oidc_failed",
+  oidc_disabled: "login.error.oidc_disabled",
+}
+
+export default function LoginPage() {
+  const { oidc } = useSession()
+  const { t } = useI18n()
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+  const [next, setNext] = useState("/")
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // The OIDC error stays translatable when the language is switched
+  const [errorReason, setErrorReason] = useState<string | null>(null)
+
+  // Read on the client so the page can be prerendered
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const target = params.get("next")
+    if (target?.startsWith("/") && !target.startsWith("//")) {
+      setNext(target)
+    }
+    setErrorReason(params.get("error"))
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    setErrorReason(null)
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      })
+      if (response.status === 401) {
+        throw new Error(t("login.invalid"))
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to sign in: ${response.statusText}`)
+      }
+      window.location.assign(next)
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      setError(errorMessage)
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-8">
+      <div className="container px-4 mx-auto max-w-md">
+        <Card className="border-0 shadow-md overflow-hidden">
+          <CardHeader className="bg-white border-b border-gray-100">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-[#0a2158]">{t("login.title")}</CardTitle>
+              <LocaleSwitcher />
+            </div>
+            <CardDescription>{t("login.description")}</CardDescription>
+          </CardHeader>
+          <CardContent className="bg-white pt-6">
+            <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="username">{t("login.username")}</Label>
+                <input
+                  id="username"
+                  value={username}
+                  onChange={(event) => setUsername(event.target.value)}
+                  autoComplete="username"
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0a2158]"
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="password">{t("login.password")}</Label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  autoComplete="current-password"
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0a2158]"
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {errorReason && (
+                <p className="text-sm text-red-600">
+                  {ERROR_MESSAGES[errorReason] ? t(ERROR_MESSAGES[errorReason]) : t("login.error.other", { reason: errorReason })}
+                </p>
+              )}
+              <Button type="submit" disabled={submitting || !username || !password} className="bg-[#0a2158] hover:bg-[#0a2158]/90">
+                <LogIn className="mr-2 h-4 w-4" />
+                {submitting ? t("login.submitting") : t("login.submit")}
+              </Button>
+            </form>
+
+            {oidc && (
+              <a href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`} className="mt-3 block">
+                <Button variant="outline" className="w-full border-[#0a2158] text-[#0a2158]">
+                  {t("login.oidc")}
+                </Button>
+              </a>
+            )}
+
+            <Link href="/" className="mt-6 flex items-center justify-center text-sm text-gray-600 hover:text-[#0a2158]">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              {t("login.back")}
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,11 @@
+import { ChargerDashboard } from "@/components/charger-dashboard"
+
+interface SitePageProps {
+  params: Promise<{ siteId: string }>
+}
+
+// Dashboard of a single site, e.g. /sites/prien
+export default async function SitePage({ params }: SitePageProps) {
+  const { siteId } = await params
+  return <ChargerDashboard siteId={decodeURIComponent(siteId)} />
+}
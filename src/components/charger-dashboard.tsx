@@ -0,0 +1,545 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { ChargerSkeleton } from "@/components/charger-skeleton"
+import { CostCalculator, CostEstimateRow, parseEnergy } from "@/components/cost-calculator"
+import { HealthBanner } from "@/components/health-banner"
+import { useI18n } from "@/components/i18n-provider"
+import { LocaleSwitcher } from "@/components/locale-switcher"
+import { RecentSessions, type ChargingSession } from "@/components/recent-sessions"
+import { SiteSwitcher, type SiteSummary } from "@/components/site-switcher"
+import { getStatusPresentation } from "@/components/status-presentation"
+import { WaitlistPanel, type WaitlistState } from "@/components/waitlist-panel"
+import StatusUpdateDialog from "@/components/status-update-dialog"
+import { useSession } from "@/hooks/use-session"
+import { canSetStatus, hasRole } from "@/lib/auth/roles"
+import { isInUse, type ChargerStatus } from "@/lib/status"
+import type { Tariff } from "@/lib/tariffs"
+import { useStatusStream } from "@/hooks/use-status-stream"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { RefreshCw, Info, MapPin, BarChart3, Clock, LogIn, LogOut, Pencil, ScrollText, Hand } from "lucide-react"
+
+// Master data as returned by /api/chargers
+interface RegisteredCharger {
+  id: string
+  siteId: string
+  location: string
+  steckertyp: string
+  leistung: string
+  address: string
+  operator: string
+}
+
+interface ChargerData {
+  evseId: string
+  siteId: string
+  status: ChargerStatus
+  location: string
+  operator: string
+  address: string
+  plugType?: string
+  power?: string
+  steckertyp?: string
+  leistung?: string
+  preis?: string
+  tariff?: Tariff | null
+  lastUpdated: string
+  isRealTime: boolean
+  // Set while failed scrapes keep showing the last good status
+  stale?: boolean
+  // Set while a manual status replaces the observed one
+  override?: {
+    status: ChargerStatus
+    policy: "ttl" | "until-change"
+    setAt: string
+    expiresAt: string
+    setBy: string
+    reason: string
+  }
+  observedStatus?: ChargerStatus
+}
+
+// Sessions listed per card, out of those of the last week
+const RECENT_SESSIONS = 3
+const SESSION_WINDOW = 7 * 24 * 60 * 60 * 1000
+
+function StatusIcon({ status, className }: { status: ChargerStatus; className?: string }) {
+  const Icon = getStatusPresentation(status).icon
+  return <Icon className={className} />
+}
+
+interface ChargerDashboardProps {
+  // Show one site only; without it every site the visitor may see is shown
+  siteId?: string
+}
+
+export function ChargerDashboard({ siteId }: ChargerDashboardProps) {
+  const [chargers, setChargers] = useState<ChargerData[]>([])
+  const [sites, setSites] = useState<SiteSummary[]>([])
+  const [sitesLoaded, setSitesLoaded] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [waitlist, setWaitlist] = useState<WaitlistState>({ entries: [], claims: [] })
+  const [dialogCharger, setDialogCharger] = useState<ChargerData | null>(null)
+  const [energyInput, setEnergyInput] = useState("")
+  const [sessions, setSessions] = useState<ChargingSession[]>([])
+  const { user, logout } = useSession()
+  const { t, statusLabel, formatTime } = useI18n()
+
+  useEffect(() => {
+    fetchChargers()
+    fetchWaitlist()
+    fetchSites()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Status changes are pushed by the server instead of polled
+  const handleStatus = useCallback((data: ChargerData) => {
+    setChargers((current) =>
+      current.map((charger) =>
+        // An override that ended is absent from the update, so it has to be reset explicitly
+        charger.evseId === data.evseId
+          ? { ...charger, ...data, override: data.override, observedStatus: data.observedStatus }
+          : charger,
+      ),
+    )
+  }, [])
+  const streamState = useStatusStream(handleStatus, setWaitlist)
+
+  // A session starts or ends whenever a charger enters or leaves use
+  const usageKey = chargers.map((charger) => `${charger.evseId}:${isInUse(charger.status)}`).join(",")
+  useEffect(() => {
+    if (usageKey) fetchSessions()
+  }, [usageKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchSessions = async () => {
+    try {
+      // Only what the cards show; the limit just has to cover every charger
+      const params = new URLSearchParams({
+        from: new Date(Date.now() - SESSION_WINDOW).toISOString(),
+        perCharger: String(RECENT_SESSIONS),
+        limit: "1000",
+      })
+      if (siteId) params.set("siteId", siteId)
+      const response = await fetch(`/api/sessions?${params}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch sessions: ${response.statusText}`)
+      }
+      setSessions((await response.json()).items)
+    } catch (error) {
+      console.error("Error fetching sessions:", error)
+    }
+  }
+
+  const fetchWaitlist = async () => {
+    try {
+      const response = await fetch("/api/queue")
+      if (!response.ok) {
+        throw new Error(`Failed to fetch queue: ${response.statusText}`)
+      }
+      setWaitlist(await response.json())
+    } catch (error) {
+      console.error("Error fetching queue:", error)
+    }
+  }
+
+  const fetchSites = async () => {
+    try {
+      const response = await fetch("/api/sites")
+      if (!response.ok) {
+        throw new Error(`Failed to fetch sites: ${response.statusText}`)
+      }
+      setSites((await response.json()).sites)
+      setSitesLoaded(true)
+    } catch (error) {
+      console.error("Error fetching sites:", error)
+    }
+  }
+
+  const fetchChargers = async (forceRefresh = false) => {
+    if (refreshing) return
+    
+    setRefreshing(true)
+    try {
+      const registryResponse = await fetch(`/api/chargers${siteId ? `?siteId=${encodeURIComponent(siteId)}` : ""}`)
+      // 401: the site is not public and nobody is signed in
+      if (registryResponse.status === 401 || registryResponse.status === 403) {
+        setLoadError(t("dashboard.siteForbidden"))
+        return
+      }
+      if (!registryResponse.ok) {
+        throw new Error(`Failed to fetch charger list: ${registryResponse.statusText}`)
+      }
+      const { chargers: registered }: { chargers: RegisteredCharger[] } = await registryResponse.json()
+
+      const chargerPromises = registered.map(async ({ id: evseId, ...info }) => {
+        try {
+          // The bypass parameter asks the server for a fresh scrape; the result arrives via the stream
+          const url = `/api/charger?evseId=${encodeURIComponent(evseId)}`
+          let response = await fetch(forceRefresh ? `${url}&bypass=true` : url)
+          // Refreshed too often: show the last known status instead
+          if (response.status === 429) {
+            response = await fetch(url)
+          }
+          if (!response.ok) {
+            throw new Error(`Failed to fetch charger data: ${response.statusText}`)
+          }
+          return await response.json()
+        } catch (error) {
+          console.error(`Error fetching charger ${evseId}:`, error)
+          return {
+            evseId,
+            siteId: info.siteId,
+            status: "error",
+            location: info.location,
+            operator: info.operator,
+            address: info.address,
+            plugType: info.steckertyp,
+            power: info.leistung,
+            lastUpdated: new Date().toISOString(),
+            isRealTime: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          }
+        }
+      })
+
+      const results = await Promise.all(chargerPromises)
+      setChargers(results)
+    } catch (error) {
+      console.error("Error fetching chargers:", error)
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }
+
+  // Helper to determine if a status is reliable
+  const isReliableStatus = (charger: ChargerData) => {
+    // If we have a status from scraping or someone set it by hand, it's reliable
+    if ((charger.isRealTime || charger.override) && charger.status !== "unknown") {
+      return true;
+    }
+    return false;
+  }
+
+  // Unreliable statuses are shown as unknown
+  const displayedStatus = (charger: ChargerData): ChargerStatus => (isReliableStatus(charger) ? charger.status : "unknown")
+  const presentationOf = (charger: ChargerData) => getStatusPresentation(displayedStatus(charger))
+
+  const handleStatusUpdate = (evseId: string, status: ChargerStatus) => {
+    setChargers((current) =>
+      current.map((charger) =>
+        charger.evseId === evseId ? { ...charger, status, isRealTime: true, lastUpdated: new Date().toISOString() } : charger,
+      ),
+    )
+  }
+
+  const clearOverride = async (evseId: string) => {
+    try {
+      const response = await fetch("/api/update-status", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ evseId }),
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to clear override: ${response.statusText}`)
+      }
+      handleStatus(await response.json())
+    } catch (error) {
+      console.error(`Error clearing override for ${evseId}:`, error)
+    }
+  }
+
+  const site = siteId ? sites.find((candidate) => candidate.id === siteId) : undefined
+  // The waitlist is per site, so it needs a site in view
+  const waitlistSiteId = siteId ?? (sites.length === 1 ? sites[0].id : undefined)
+  // The combined overview groups the cards by site once there is more than one
+  const groups: { site?: SiteSummary; chargers: ChargerData[] }[] =
+    siteId || sites.length <= 1
+      ? [{ chargers }]
+      : sites
+          .map((candidate) => ({ site: candidate, chargers: chargers.filter((charger) => charger.siteId === candidate.id) }))
+          .filter((group) => group.chargers.length > 0)
+
+  const energyKwh = parseEnergy(energyInput)
+
+  const recentSessions = (evseId: string) =>
+    sessions.filter((session) => session.evseId === evseId).slice(0, RECENT_SESSIONS)
+
+  const getClaim = (evseId: string) => waitlist.claims.find((claim) => claim.evseId === evseId)
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-8">
+      <div className="container px-4 mx-auto">
+        <div className="flex flex-col items-center mb-8">
+          <h1 className="text-3xl font-bold text-[#0a2158] text-center">{site ? site.name : t("dashboard.title")}</h1>
+          <p className="text-gray-600 mt-2 text-center max-w-2xl">
+            {site
+              ? t("dashboard.subtitleSite", { address: site.address })
+              : sites.length > 1
+                ? t("dashboard.subtitleAllSites")
+                : t("dashboard.subtitle")}
+          </p>
+          <div className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+            <span
+              className={`inline-block w-2.5 h-2.5 rounded-full ${
+                streamState === "live" ? "bg-green-500" : streamState === "connecting" ? "bg-amber-500" : "bg-red-500"
+              }`}
+            ></span>
+            {t(`stream.${streamState}`)}
+          </div>
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            {(sites.length > 1 || siteId) && <SiteSwitcher sites={sites} siteId={siteId} />}
+            <LocaleSwitcher />
+            <Button 
+              onClick={() => fetchChargers(true)} 
+              disabled={refreshing} 
+              className="bg-[#0a2158] hover:bg-[#0a2158]/90"
+            >
+              {refreshing ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  {t("common.refreshing")}
+                </>
+              ) : (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  {t("common.refresh")}
+                </>
+              )}
+            </Button>
+            <Link href="/analytics">
+              <Button variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                <BarChart3 className="mr-2 h-4 w-4" />
+                {t("nav.analytics")}
+              </Button>
+            </Link>
+            {hasRole(user?.role, "employee") && (
+              <Link href="/audit">
+                <Button variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                  <ScrollText className="mr-2 h-4 w-4" />
+                  {t("nav.audit")}
+                </Button>
+              </Link>
+            )}
+            {user ? (
+              <Button variant="outline" onClick={logout} className="border-[#0a2158] text-[#0a2158]">
+                <LogOut className="mr-2 h-4 w-4" />
+                {t("nav.logout")}
+              </Button>
+            ) : (
+              <Link href="/login">
+                <Button variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                  <LogIn className="mr-2 h-4 w-4" />
+                  {t("nav.login")}
+                </Button>
+              </Link>
+            )}
+          </div>
+          {user && (
+            <p className="mt-2 text-xs text-gray-500">
+              {t("dashboard.signedInAs", { name: user.name, role: t(`role.${user.role}`) })}
+            </p>
+          )}
+        </div>
+
+        <HealthBanner />
+
+        {waitlistSiteId && (
+          <WaitlistPanel
+            waitlist={waitlist}
+            siteId={waitlistSiteId}
+            chargerNames={Object.fromEntries(chargers.map((charger) => [charger.evseId, charger.location]))}
+            onChange={setWaitlist}
+          />
+        )}
+
+        <CostCalculator value={energyInput} onChange={setEnergyInput} />
+
+        {loadError ? (
+          <p className="mb-6 text-center text-sm text-red-600">{loadError}</p>
+        ) : (
+          siteId && sitesLoaded && !site && <p className="mb-6 text-center text-sm text-red-600">{t("dashboard.siteNotFound")}</p>
+        )}
+
+        {loading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {Array(3)
+              .fill(0)
+              .map((_, index) => <ChargerSkeleton key={index} />)}
+          </div>
+        ) : (
+          groups.map((group) => (
+            <section key={group.site?.id ?? "all"} className="mb-10">
+              {group.site && (
+                <h2 className="mb-4 text-xl font-semibold text-[#0a2158]">
+                  <Link href={`/sites/${encodeURIComponent(group.site.id)}`} className="hover:underline">
+                    {group.site.name}
+                  </Link>
+                </h2>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {group.chargers.map((charger) => (
+                  <Card 
+                    key={charger.evseId}
+                    className="h-full border-0 shadow-md overflow-hidden"
+                  >
+                    <CardHeader className="bg-white border-b border-gray-100">
+                      <div className="flex justify-between items-center">
+                        <CardTitle className="text-[#0a2158]">
+                          {charger.location || t("charger.fallbackName", { number: charger.evseId.split("*").pop() ?? "" })}
+                        </CardTitle>
+                        <Badge className={presentationOf(charger).badgeClass}>
+                          <span className="flex items-center gap-1">
+                            <StatusIcon status={displayedStatus(charger)} className="h-5 w-5" />
+                            {statusLabel(displayedStatus(charger))}
+                          </span>
+                        </Badge>
+                      </div>
+                      <CardDescription className="flex items-center gap-1">
+                        <Info className="h-3.5 w-3.5" /> {charger.evseId}
+                      </CardDescription>
+                    </CardHeader>
+                    
+                    <CardContent className="bg-white pt-6">
+                      <div className="flex flex-col gap-4">
+                        <div className="flex items-center justify-center py-6">
+                          <div className="flex flex-col items-center">
+                            <StatusIcon status={displayedStatus(charger)} className={`h-20 w-20 ${presentationOf(charger).iconClass}`} />
+                            <p className={`mt-2 text-sm ${displayedStatus(charger) === "error" ? "text-red-600" : "text-gray-600"}`}>
+                              {statusLabel(displayedStatus(charger))}
+                            </p>
+                            {charger.stale && !charger.override && (
+                              <p className="mt-1 text-xs text-amber-700">
+                                {t("charger.stale", { time: formatTime(charger.lastUpdated) })}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+
+                        {charger.override && (
+                          <div className="flex items-start gap-2 rounded-md bg-[#e6eeff] px-3 py-2 text-sm text-[#0a2158]">
+                            <Hand className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <div className="flex-1">
+                              <p>
+                                {t("override.setBy", { name: charger.override.setBy, reason: charger.override.reason })}
+                              </p>
+                              <p className="text-xs text-gray-600">
+                                {charger.override.policy === "until-change"
+                                  ? t("override.untilChange", { time: formatTime(charger.override.expiresAt) })
+                                  : t("override.until", { time: formatTime(charger.override.expiresAt) })}
+                                {charger.observedStatus && ` · ${t("override.observed", { status: statusLabel(charger.observedStatus) })}`}
+                              </p>
+                            </div>
+                            {canSetStatus(user?.role, charger.override.status) && (
+                              <button onClick={() => clearOverride(charger.evseId)} className="text-xs underline">
+                                {t("override.clear")}
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {getClaim(charger.evseId) && (
+                          <div className="flex items-center gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                            <Clock className="h-4 w-4 flex-shrink-0" />
+                            {t("dashboard.reservedFor", {
+                              name: getClaim(charger.evseId)!.name,
+                              time: formatTime(getClaim(charger.evseId)!.expiresAt),
+                            })}
+                          </div>
+                        )}
+
+                        <div className="space-y-2 text-sm">
+                          <div className="flex justify-between">
+                            <span className="text-gray-500">{t("charger.plugType")}:</span>
+                            <span className="font-medium">{charger.steckertyp || charger.plugType}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-gray-500">{t("charger.power")}:</span>
+                            <span className="font-medium">{charger.leistung || charger.power}</span>
+                          </div>
+                          {charger.preis && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-500">{t("charger.price")}:</span>
+                              <span className="font-medium">{charger.preis}</span>
+                            </div>
+                          )}
+                          {energyKwh !== null && (
+                            <CostEstimateRow
+                              tariff={charger.tariff}
+                              power={charger.leistung || charger.power}
+                              energyKwh={energyKwh}
+                            />
+                          )}
+                          {charger.address && (
+                            <div className="flex items-start gap-1 mt-2 text-gray-500">
+                              <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                              <span className="text-xs">{charger.address}</span>
+                            </div>
+                          )}
+                        </div>
+
+                        <RecentSessions sessions={recentSessions(charger.evseId)} />
+                      </div>
+                    </CardContent>
+                    
+                    <CardFooter className="flex justify-between bg-white border-t border-gray-100 py-4">
+                      <div className="text-xs text-gray-600">
+                        <div className="flex flex-col">
+                          <span>
+                            {t("charger.lastUpdated")}: {formatTime(charger.lastUpdated)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        {hasRole(user?.role, "employee") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDialogCharger(charger)}
+                            className="border-[#0a2158] text-[#0a2158] hover:bg-[#0a2158] hover:text-white transition-colors"
+                          >
+                            <Pencil className="h-3.5 w-3.5 mr-1" />
+                            {t("dashboard.status")}
+                          </Button>
+                        )}
+                        <Link href={`/chargers/${encodeURIComponent(charger.evseId)}`}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="border-[#0a2158] text-[#0a2158] hover:bg-[#0a2158] hover:text-white transition-colors"
+                          >
+                            <Info className="h-3.5 w-3.5 mr-1" />
+                            {t("dashboard.details")}
+                          </Button>
+                        </Link>
+                      </div>
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+
+        {dialogCharger && (
+          <StatusUpdateDialog
+            open={Boolean(dialogCharger)}
+            onOpenChange={(open) => !open && setDialogCharger(null)}
+            charger={dialogCharger}
+            currentStatus={dialogCharger.status}
+            role={user?.role}
+            onStatusUpdate={(status) => handleStatusUpdate(dialogCharger.evseId, status)}
+          />
+        )}
+
+        <div className="mt-12 text-center text-sm text-gray-500">
+          <p>{t("dashboard.copyright", { year: new Date().getFullYear() })}</p>
+        </div>
+      </div>
+    </main>
+  )
+}
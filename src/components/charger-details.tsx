@@ -0,0 +1,427 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useI18n } from "@/components/i18n-provider"
+import { LocaleSwitcher } from "@/components/locale-switcher"
+import { getStatusPresentation } from "@/components/status-presentation"
+import { useSession } from "@/hooks/use-session"
+import { useStatusStream } from "@/hooks/use-status-stream"
+import { hasRole } from "@/lib/auth/roles"
+import { getChrgDirectUrl } from "@/lib/charger-data"
+import type { MessageKey } from "@/lib/i18n"
+import { CHARGER_STATUSES, type ChargerStatus } from "@/lib/status"
+import { ArrowLeft, ExternalLink, MapPin } from "lucide-react"
+
+// Status and master data as returned by /api/charger
+interface ChargerDetailData {
+  evseId: string
+  siteId: string
+  status: ChargerStatus
+  statusText: string
+  location: string
+  operator: string
+  address: string
+  steckertyp: string
+  leistung: string
+  preis: string
+  lastUpdated: string
+  isRealTime: boolean
+  source: string | null
+  confidence: number
+  pending?: boolean
+  error?: string
+  override?: {
+    status: ChargerStatus
+    policy: "ttl" | "until-change"
+    setAt: string
+    expiresAt: string
+    setBy: string
+    reason: string
+  }
+  observedStatus?: ChargerStatus
+}
+
+interface Site {
+  id: string
+  name: string
+}
+
+interface StatusSegment {
+  status: ChargerStatus
+  from: string
+  to: string
+  observations: number
+}
+
+interface AuditEntry {
+  id: string
+  name: string
+  previousStatus: ChargerStatus
+  newStatus: ChargerStatus
+  reason: string
+  timestamp: string
+}
+
+const SOURCES = ["puppeteer", "cheerio", "regex", "ocpp", "manual"]
+
+const RANGES = [1, 3, 7]
+const DAY = 24 * 60 * 60 * 1000
+const RECENT_OVERRIDES = 10
+
+function minutesBetween(from: string, to: string) {
+  return (new Date(to).getTime() - new Date(from).getTime()) / 60000
+}
+
+// Local midnight of today and the days before it, oldest first
+function dayStarts(days: number) {
+  return Array.from({ length: days }, (_, index) => {
+    const day = new Date()
+    day.setHours(0, 0, 0, 0)
+    day.setDate(day.getDate() - (days - 1 - index))
+    return day
+  })
+}
+
+// One bar per day; segments are placed by their share of the day
+function DayBar({ day, segments }: { day: Date; segments: StatusSegment[] }) {
+  const { statusLabel, formatDateTime } = useI18n()
+  const start = day.getTime()
+  const end = start + DAY
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-20 flex-shrink-0 text-xs text-gray-500">
+        {formatDateTime(day, { weekday: "short", day: "2-digit", month: "2-digit" })}
+      </span>
+      <div className="relative h-5 flex-1 overflow-hidden rounded bg-gray-100">
+        {segments.map((segment) => {
+          const from = Math.max(new Date(segment.from).getTime(), start)
+          const to = Math.min(new Date(segment.to).getTime(), end)
+          if (to <= from) return null
+          return (
+            <div
+              key={segment.from}
+              className={`absolute inset-y-0 ${getStatusPresentation(segment.status).dotClass}`}
+              style={{ left: `${((from - start) / DAY) * 100}%`, width: `${((to - from) / DAY) * 100}%` }}
+              title={`${statusLabel(segment.status)}: ${formatDateTime(segment.from)} – ${formatDateTime(segment.to)}`}
+            />
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+interface ChargerDetailsProps {
+  evseId: string
+}
+
+export function ChargerDetails({ evseId }: ChargerDetailsProps) {
+  const [charger, setCharger] = useState<ChargerDetailData | null>(null)
+  const [site, setSite] = useState<Site | null>(null)
+  const [segments, setSegments] = useState<StatusSegment[]>([])
+  const [overrides, setOverrides] = useState<AuditEntry[]>([])
+  const [range, setRange] = useState(RANGES[RANGES.length - 1])
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<MessageKey | null>(null)
+  const { user } = useSession()
+  const { t, statusLabel, formatDateTime, formatNumber, formatDuration } = useI18n()
+  const isEmployee = hasRole(user?.role, "employee")
+
+  useEffect(() => {
+    const fetchCharger = async () => {
+      try {
+        const response = await fetch(`/api/charger?evseId=${encodeURIComponent(evseId)}`)
+        if (response.status === 404) {
+          setLoadError("details.notFound")
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to fetch charger data: ${response.statusText}`)
+        }
+        const data: ChargerDetailData = await response.json()
+        setCharger(data)
+
+        const siteResponse = await fetch(`/api/sites/${encodeURIComponent(data.siteId)}`)
+        if (siteResponse.ok) {
+          setSite(await siteResponse.json())
+        }
+      } catch (error) {
+        console.error(`Error fetching charger ${evseId}:`, error)
+        setLoadError("details.loadFailed")
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchCharger()
+  }, [evseId])
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      try {
+        const params = new URLSearchParams({ evseId, from: dayStarts(range)[0].toISOString() })
+        const response = await fetch(`/api/history/timeline?${params}`)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch timeline: ${response.statusText}`)
+        }
+        setSegments((await response.json()).segments)
+      } catch (error) {
+        console.error(`Error fetching timeline of ${evseId}:`, error)
+      }
+    }
+    fetchTimeline()
+  }, [evseId, range])
+
+  useEffect(() => {
+    if (!isEmployee) return
+    const fetchOverrides = async () => {
+      try {
+        const params = new URLSearchParams({ evseId, limit: String(RECENT_OVERRIDES) })
+        const response = await fetch(`/api/audit?${params}`)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch audit log: ${response.statusText}`)
+        }
+        setOverrides((await response.json()).items)
+      } catch (error) {
+        console.error(`Error fetching overrides of ${evseId}:`, error)
+      }
+    }
+    fetchOverrides()
+  }, [evseId, isEmployee])
+
+  const handleStatus = useCallback(
+    (data: ChargerDetailData) => {
+      if (data.evseId !== evseId) return
+      // An override that ended is absent from the update, so it has to be reset explicitly
+      setCharger((current) => (current ? { ...current, ...data, override: data.override, observedStatus: data.observedStatus } : data))
+    },
+    [evseId],
+  )
+  const streamState = useStatusStream(handleStatus)
+
+  const presentation = getStatusPresentation(charger?.status ?? "unknown")
+  const StatusIcon = presentation.icon
+  const shownStatuses = CHARGER_STATUSES.filter((status) => segments.some((segment) => segment.status === status))
+  const changes = segments.filter((segment) => segment.observations > 0).reverse()
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-8">
+      <div className="container px-4 mx-auto max-w-5xl">
+        <div className="flex flex-col items-center mb-8">
+          <h1 className="text-3xl font-bold text-[#0a2158] text-center">{charger?.location ?? t("details.fallbackTitle")}</h1>
+          <p className="text-gray-600 mt-2 text-center font-mono text-sm">{evseId}</p>
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            <Link href={site ? `/sites/${encodeURIComponent(site.id)}` : "/"}>
+              <Button variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {site ? site.name : t("nav.dashboard")}
+              </Button>
+            </Link>
+            <a href={getChrgDirectUrl(evseId)} target="_blank" rel="noopener noreferrer">
+              <Button variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                <ExternalLink className="mr-2 h-4 w-4" />
+                {t("details.openChrgDirect")}
+              </Button>
+            </a>
+            <LocaleSwitcher />
+          </div>
+        </div>
+
+        {loadError ? (
+          <Card className="border-0 shadow-md">
+            <CardContent className="py-8 text-center text-gray-600">{t(loadError)}</CardContent>
+          </Card>
+        ) : loading || !charger ? (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Skeleton className="h-64 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card className="border-0 shadow-md">
+                <CardHeader className="bg-white border-b border-gray-100">
+                  <CardTitle className="text-[#0a2158]">{t("details.currentStatus")}</CardTitle>
+                  <CardDescription>
+                    {streamState === "live" ? t("details.live") : t("details.connecting")}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-4 text-sm">
+                  <div className="flex items-center gap-3">
+                    <StatusIcon className={`h-8 w-8 ${presentation.iconClass}`} />
+                    <Badge className={presentation.badgeClass}>{statusLabel(charger.status)}</Badge>
+                  </div>
+                  <dl className="space-y-2">
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">{t("details.source")}:</dt>
+                      <dd className="font-medium">
+                        {!charger.source
+                          ? t("details.noSource")
+                          : SOURCES.includes(charger.source)
+                            ? t(`source.${charger.source}` as MessageKey)
+                            : charger.source}
+                      </dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">{t("details.confidence")}:</dt>
+                      <dd className="font-medium">{formatNumber(charger.confidence, { style: "percent" })}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">{t("details.realTime")}:</dt>
+                      <dd className="font-medium">{charger.isRealTime ? t("common.yes") : t("common.no")}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">{t("charger.lastUpdated")}:</dt>
+                      <dd className="font-medium">{charger.pending ? t("details.pending") : formatDateTime(charger.lastUpdated)}</dd>
+                    </div>
+                  </dl>
+                  {charger.error && <p className="rounded-md bg-red-50 px-3 py-2 text-red-800">{charger.error}</p>}
+                  {charger.override && (
+                    <div className="rounded-md bg-blue-50 px-3 py-2 text-[#0a2158]">
+                      <p>
+                        {t("override.setByAt", {
+                          name: charger.override.setBy,
+                          time: formatDateTime(charger.override.setAt),
+                          reason: charger.override.reason,
+                        })}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {charger.override.policy === "until-change"
+                          ? t("override.untilChange", { time: formatDateTime(charger.override.expiresAt) })
+                          : t("override.until", { time: formatDateTime(charger.override.expiresAt) })}
+                        {charger.observedStatus && ` · ${t("override.observed", { status: statusLabel(charger.observedStatus) })}`}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-md">
+                <CardHeader className="bg-white border-b border-gray-100">
+                  <CardTitle className="text-[#0a2158]">{t("details.equipment")}</CardTitle>
+                  <CardDescription>{site ? site.name : t("details.masterData")}</CardDescription>
+                </CardHeader>
+                <CardContent className="pt-6 text-sm">
+                  <dl className="space-y-2">
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">{t("charger.plugType")}:</dt>
+                      <dd className="font-medium">{charger.steckertyp}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">{t("charger.power")}:</dt>
+                      <dd className="font-medium">{charger.leistung}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">{t("charger.price")}:</dt>
+                      <dd className="font-medium">{charger.preis || "–"}</dd>
+                    </div>
+                    <div className="flex justify-between gap-4">
+                      <dt className="text-gray-500">{t("charger.operator")}:</dt>
+                      <dd className="font-medium text-right">{charger.operator}</dd>
+                    </div>
+                  </dl>
+                  <div className="flex items-start gap-1 mt-4 text-gray-500">
+                    <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{charger.address}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="border-0 shadow-md">
+              <CardHeader className="bg-white border-b border-gray-100">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-[#0a2158]">{t("details.timeline")}</CardTitle>
+                    <CardDescription>
+                      {range === 1 ? t("details.timelineToday") : t("details.timelineDays", { count: range })}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-1">
+                    {RANGES.map((days) => (
+                      <Button
+                        key={days}
+                        size="sm"
+                        variant={days === range ? "default" : "outline"}
+                        onClick={() => setRange(days)}
+                        className={days === range ? "bg-[#0a2158]" : "border-[#0a2158] text-[#0a2158]"}
+                      >
+                        {days === 1 ? t("details.today") : t("common.days", { count: days })}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-2">
+                {dayStarts(range).map((day) => (
+                  <DayBar key={day.toISOString()} day={day} segments={segments} />
+                ))}
+                <div className="flex flex-wrap gap-3 pt-2 pl-[5.75rem] text-xs text-gray-600">
+                  {shownStatuses.map((status) => (
+                    <span key={status} className="flex items-center gap-1">
+                      <span className={`inline-block h-2.5 w-2.5 rounded-full ${getStatusPresentation(status).dotClass}`} />
+                      {statusLabel(status)}
+                    </span>
+                  ))}
+                </div>
+                {changes.length > 0 && (
+                  <ul className="mt-4 divide-y divide-gray-100 text-sm">
+                    {changes.map((segment) => (
+                      <li key={segment.from} className="flex items-center justify-between gap-4 py-2">
+                        <Badge className={getStatusPresentation(segment.status).badgeClass}>
+                          {statusLabel(segment.status)}
+                        </Badge>
+                        <span className="text-gray-600">
+                          {formatDateTime(segment.from)} – {formatDateTime(segment.to)} ({formatDuration(minutesBetween(segment.from, segment.to))})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 shadow-md">
+              <CardHeader className="bg-white border-b border-gray-100">
+                <CardTitle className="text-[#0a2158]">{t("details.overrides")}</CardTitle>
+                <CardDescription>{t("details.overridesRecent", { count: RECENT_OVERRIDES })}</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6 text-sm">
+                {!isEmployee ? (
+                  <p className="text-gray-600">{t("details.overridesHidden")}</p>
+                ) : overrides.length === 0 ? (
+                  <p className="text-gray-600">{t("details.noOverrides")}</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {overrides.map((entry) => (
+                      <li key={entry.id} className="py-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge className={getStatusPresentation(entry.previousStatus).badgeClass}>
+                            {statusLabel(entry.previousStatus)}
+                          </Badge>
+                          →
+                          <Badge className={getStatusPresentation(entry.newStatus).badgeClass}>
+                            {statusLabel(entry.newStatus)}
+                          </Badge>
+                          <span className="text-gray-600">
+                            {entry.name}, {formatDateTime(entry.timestamp)}
+                          </span>
+                        </div>
+                        <p className="mt-1 italic text-gray-700">{entry.reason}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
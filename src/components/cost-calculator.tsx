@@ -0,0 +1,89 @@
+"use client"
+
+import { Calculator } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/components/i18n-provider"
+import { estimateCost, isTariffValid, parsePower, type Tariff } from "@/lib/tariffs"
+
+const MAX_ENERGY_KWH = 200
+
+interface CostCalculatorProps {
+  // As typed, so "12,5" survives until it is a number
+  value: string
+  onChange: (value: string) => void
+}
+
+// The kWh entered here are priced on every charger card
+export function CostCalculator({ value, onChange }: CostCalculatorProps) {
+  const { t } = useI18n()
+
+  return (
+    <Card className="mb-6 border-0 shadow-md overflow-hidden">
+      <CardHeader className="bg-white border-b border-gray-100">
+        <CardTitle className="flex items-center gap-2 text-[#0a2158]">
+          <Calculator className="h-5 w-5" />
+          {t("calculator.title")}
+        </CardTitle>
+        <CardDescription>{t("calculator.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="bg-white pt-6">
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          {t("calculator.energy")}
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={MAX_ENERGY_KWH}
+            step="any"
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            placeholder="30"
+            className="w-28 rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0a2158]"
+          />
+        </label>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Parse the calculator input; null while it is empty or not a sensible amount
+export function parseEnergy(value: string): number | null {
+  const energy = Number(value.replace(",", "."))
+  return value.trim() && energy > 0 && energy <= MAX_ENERGY_KWH ? energy : null
+}
+
+interface CostEstimateRowProps {
+  tariff?: Tariff | null
+  // Rated power such as "22 kW", used for time-based fees
+  power?: string
+  energyKwh: number
+}
+
+export function CostEstimateRow({ tariff, power, energyKwh }: CostEstimateRowProps) {
+  const { t, formatNumber } = useI18n()
+  const estimate = tariff ? estimateCost(tariff, { energyKwh, powerKw: parsePower(power) }) : null
+  const money = (amount: number) => formatNumber(amount, { style: "currency", currency: estimate?.currency ?? "EUR" })
+
+  return (
+    <div className="flex justify-between">
+      <span className="text-gray-500">{t("calculator.estimate")}:</span>
+      {estimate ? (
+        <span
+          className="font-semibold text-[#0a2158]"
+          title={t("calculator.breakdown", {
+            energy: money(estimate.energy),
+            time: money(estimate.time),
+            blocking: money(estimate.blocking),
+            minutes: estimate.minutes,
+          })}
+        >
+          {money(estimate.total)}
+        </span>
+      ) : (
+        <span className="text-gray-500">
+          {tariff && !isTariffValid(tariff) ? t("calculator.notValid") : t("calculator.noTariff")}
+        </span>
+      )}
+    </div>
+  )
+}
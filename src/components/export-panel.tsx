@@ -0,0 +1,172 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/components/i18n-provider"
+import { useSession } from "@/hooks/use-session"
+import { hasRole } from "@/lib/auth/roles"
+
+interface RegisteredCharger {
+  id: string
+  location: string
+}
+
+const DATASETS = ["sessions", "observations", "overrides"] as const
+const FORMATS = ["csv", "json"] as const
+
+type Dataset = (typeof DATASETS)[number]
+type Format = (typeof FORMATS)[number]
+
+// YYYY-MM-DD in local time, as date inputs use it
+function toDateInput(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// Controlling works in calendar months, so the last full one is the default
+function previousMonth() {
+  const today = new Date()
+  return {
+    from: toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+    to: toDateInput(new Date(today.getFullYear(), today.getMonth(), 0)),
+  }
+}
+
+export function ExportPanel() {
+  const [chargers, setChargers] = useState<RegisteredCharger[]>([])
+  const [selected, setSelected] = useState<string[] | null>(null)
+  const [range, setRange] = useState(previousMonth)
+  const [dataset, setDataset] = useState<Dataset>("sessions")
+  const [format, setFormat] = useState<Format>("csv")
+  const { user } = useSession()
+  const { t } = useI18n()
+
+  useEffect(() => {
+    fetch("/api/chargers")
+      .then((response) => response.json())
+      .then((data) => setChargers(data.chargers))
+      .catch((error) => console.error("Error fetching chargers:", error))
+  }, [])
+
+  // Overrides name employees, so only they may export them
+  const datasets = DATASETS.filter((option) => option !== "overrides" || hasRole(user?.role, "employee"))
+  const chosen = selected ?? chargers.map((charger) => charger.id)
+  const invalidRange = !range.from || !range.to || range.to < range.from
+
+  const toggle = (evseId: string) =>
+    setSelected(chosen.includes(evseId) ? chosen.filter((id) => id !== evseId) : [...chosen, evseId])
+
+  const buildUrl = () => {
+    // Whole days in local time; the end date is included
+    const [fromYear, fromMonth, fromDay] = range.from.split("-").map(Number)
+    const [toYear, toMonth, toDay] = range.to.split("-").map(Number)
+    const params = new URLSearchParams({
+      dataset,
+      format,
+      from: new Date(fromYear, fromMonth - 1, fromDay).toISOString(),
+      to: new Date(toYear, toMonth - 1, toDay + 1).toISOString(),
+    })
+    // Without a selection the server exports every charger, retired ones included
+    if (chosen.length < chargers.length) {
+      chosen.forEach((evseId) => params.append("evseId", evseId))
+    }
+    return `/api/export?${params}`
+  }
+
+  return (
+    <Card className="mb-6 border-0 shadow-md overflow-hidden">
+      <CardHeader className="bg-white border-b border-gray-100">
+        <CardTitle className="flex items-center gap-2 text-[#0a2158]">
+          <Download className="h-5 w-5" />
+          {t("export.title")}
+        </CardTitle>
+        <CardDescription>{t("export.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="bg-white pt-6">
+        <div className="flex flex-col gap-4 text-sm text-gray-700">
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2">
+              {t("export.from")}
+              <input
+                type="date"
+                value={range.from}
+                onChange={(event) => setRange({ ...range, from: event.target.value })}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              {t("export.to")}
+              <input
+                type="date"
+                value={range.to}
+                onChange={(event) => setRange({ ...range, to: event.target.value })}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              {t("export.dataset")}
+              <select
+                value={dataset}
+                onChange={(event) => setDataset(event.target.value as Dataset)}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                {datasets.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`export.dataset.${option}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              {t("export.format")}
+              <select
+                value={format}
+                onChange={(event) => setFormat(event.target.value as Format)}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                {FORMATS.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`export.format.${option}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <fieldset>
+            <legend className="mb-2 text-gray-500">{t("export.chargers")}</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {chargers.map((charger) => (
+                <label key={charger.id} className="flex items-center gap-2">
+                  <input type="checkbox" checked={chosen.includes(charger.id)} onChange={() => toggle(charger.id)} />
+                  {charger.location}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {invalidRange && <p className="text-red-600">{t("export.invalidRange")}</p>}
+          {chargers.length > 0 && chosen.length === 0 && <p className="text-red-600">{t("export.noChargers")}</p>}
+
+          <div>
+            {invalidRange || chosen.length === 0 ? (
+              <Button disabled className="bg-[#0a2158] hover:bg-[#0a2158]/90">
+                <Download className="mr-2 h-4 w-4" />
+                {t("export.download")}
+              </Button>
+            ) : (
+              <Button asChild className="bg-[#0a2158] hover:bg-[#0a2158]/90">
+                <a href={buildUrl()} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  {t("export.download")}
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertTriangle } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+
+// The parts of /api/ready the banner needs; visitors without a login only get status and problem codes
+interface ReadinessReport {
+  status: "ok" | "degraded"
+  problems: { code: string; message?: string }[]
+  upstream?: { httpStatus: number | null } | null
+  staleAfterMinutes?: number
+  chargers?: { stale: boolean }[]
+}
+
+const PROBLEM_CODES = ["upstream-unreachable", "upstream-error", "selector-missing", "browser-failed", "chargers-stale"] as const
+
+type ProblemCode = (typeof PROBLEM_CODES)[number]
+
+// The server probes chrg.direct at most once a minute, so there is no point in asking more often
+const CHECK_INTERVAL = 60 * 1000
+
+// Explains why statuses may be unknown while chrg.direct or the browser has trouble
+export function HealthBanner() {
+  const [report, setReport] = useState<ReadinessReport | null>(null)
+  const { t } = useI18n()
+
+  useEffect(() => {
+    const check = async () => {
+      try {
+        const response = await fetch("/api/ready")
+        // 503 while starting up has no report
+        setReport(response.ok ? await response.json() : null)
+      } catch (error) {
+        console.error("Error checking readiness:", error)
+      }
+    }
+
+    check()
+    const timer = setInterval(check, CHECK_INTERVAL)
+    return () => clearInterval(timer)
+  }, [])
+
+  if (report?.status !== "degraded") return null
+
+  const params = {
+    status: report.upstream?.httpStatus ?? "",
+    count: report.chargers?.filter((charger) => charger.stale).length ?? "",
+    minutes: report.staleAfterMinutes ?? "",
+  }
+  // Without the details the texts that quote them are replaced by general ones
+  const detailed = report.chargers !== undefined
+  const problemText = (code: ProblemCode) =>
+    !detailed && (code === "upstream-error" || code === "chargers-stale")
+      ? t(`health.problem.${code}.general`)
+      : t(`health.problem.${code}`, params)
+
+  return (
+    <div role="status" className="mb-6 flex items-start gap-3 rounded-md bg-amber-50 px-4 py-3 text-sm text-amber-800 shadow-md">
+      <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="font-medium">{t("health.degraded")}</p>
+        <ul className="mt-1 list-disc pl-5">
+          {report.problems.map((problem) => (
+            <li key={problem.code} title={problem.message}>
+              {PROBLEM_CODES.includes(problem.code as ProblemCode)
+                ? problemText(problem.code as ProblemCode)
+                : (problem.message ?? problem.code)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
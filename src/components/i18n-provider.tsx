@@ -0,0 +1,71 @@
+"use client"
+
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from "react"
+import {
+  formatDateTime,
+  formatDuration,
+  formatNumber,
+  LOCALE_COOKIE,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from "@/lib/i18n"
+import { statusLabel } from "@/lib/status"
+
+const LOCALE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60
+
+interface I18nContextValue {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, params?: MessageParams) => string
+  // Label of any status string; unrecognised ones read as unknown
+  statusLabel: (status: string) => string
+  formatDateTime: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string
+  formatTime: (value: string | number | Date) => string
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  formatDuration: (minutes: number) => string
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+interface I18nProviderProps {
+  // Resolved by the root layout from the cookie and Accept-Language
+  initialLocale: Locale
+  children: ReactNode
+}
+
+export function I18nProvider({ initialLocale, children }: I18nProviderProps) {
+  const [locale, setLocaleState] = useState(initialLocale)
+
+  const setLocale = useCallback((next: Locale) => {
+    // API responses such as statusText follow the cookie, too
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`
+    document.documentElement.lang = next
+    setLocaleState(next)
+  }, [])
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      statusLabel: (status) => statusLabel(status, locale),
+      formatDateTime: (value, options) => formatDateTime(locale, value, options),
+      formatTime: (value) => formatDateTime(locale, value, { timeStyle: "medium" }),
+      formatNumber: (value, options) => formatNumber(locale, value, options),
+      formatDuration: (minutes) => formatDuration(locale, minutes),
+    }),
+    [locale, setLocale],
+  )
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext)
+  if (!context) {
+    throw new Error("useI18n must be used inside I18nProvider")
+  }
+  return context
+}
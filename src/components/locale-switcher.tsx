@@ -0,0 +1,27 @@
+"use client"
+
+import { Languages } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { isLocale, LOCALE_NAMES, LOCALES } from "@/lib/i18n"
+
+export function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <Languages className="h-4 w-4" />
+      <span className="sr-only">{t("locale.label")}</span>
+      <select
+        value={locale}
+        onChange={(event) => isLocale(event.target.value) && setLocale(event.target.value)}
+        className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-[#0a2158]"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { History } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+
+// As returned by /api/sessions
+export interface ChargingSession {
+  id: string
+  evseId: string
+  start: string
+  end: string | null
+  durationMinutes: number
+  gapMinutes: number
+  estimated: boolean
+}
+
+interface RecentSessionsProps {
+  // Newest first
+  sessions: ChargingSession[]
+}
+
+export function RecentSessions({ sessions }: RecentSessionsProps) {
+  const { t, formatDateTime, formatTime, formatDuration } = useI18n()
+
+  return (
+    <div className="text-sm">
+      <p className="mb-1 flex items-center gap-1 text-gray-500">
+        <History className="h-4 w-4" />
+        {t("sessions.recent")}:
+      </p>
+      {sessions.length === 0 ? (
+        <p className="text-xs text-gray-500">{t("sessions.none")}</p>
+      ) : (
+        <ul className="space-y-1">
+          {sessions.map((session) => {
+            const duration = formatDuration(session.durationMinutes)
+            return (
+              <li
+                key={session.id}
+                className="flex justify-between text-xs"
+                title={session.estimated ? t("sessions.estimatedHint") : undefined}
+              >
+                <span className="text-gray-600">
+                  {session.end
+                    ? `${formatDateTime(session.start)} – ${formatTime(session.end)}`
+                    : t("sessions.running", { start: formatDateTime(session.start) })}
+                </span>
+                <span className="font-medium">
+                  {session.estimated ? t("sessions.approximate", { duration }) : duration}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { Building2 } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+
+// A site as returned by /api/sites
+export interface SiteSummary {
+  id: string
+  name: string
+  address: string
+  chargerIds: string[]
+}
+
+interface SiteSwitcherProps {
+  sites: SiteSummary[]
+  // The site being shown, undefined for the combined overview
+  siteId?: string
+}
+
+export function SiteSwitcher({ sites, siteId }: SiteSwitcherProps) {
+  const router = useRouter()
+  const { t } = useI18n()
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <Building2 className="h-4 w-4" />
+      <span className="sr-only">{t("site.label")}</span>
+      <select
+        value={siteId ?? ""}
+        onChange={(event) => router.push(event.target.value ? `/sites/${encodeURIComponent(event.target.value)}` : "/")}
+        className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-[#0a2158]"
+      >
+        {sites.length > 1 && <option value="">{t("site.all")}</option>}
+        {sites.map((site) => (
+          <option key={site.id} value={site.id}>
+            {site.name} ({site.chargerIds.length})
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
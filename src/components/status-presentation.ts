@@ -0,0 +1,87 @@
+// Colours and icons per status for the dashboard; client components only, as it pulls in lucide-react
+import {
+  AlertTriangle,
+  Battery,
+  BatteryCharging,
+  BatteryFull,
+  BatteryMedium,
+  BatteryWarning,
+  CalendarClock,
+  PlugZap,
+  Unplug,
+  type LucideIcon,
+} from "lucide-react"
+import { isChargerStatus, type ChargerStatus } from "@/lib/status"
+
+// Labels live in the message catalogs under status.<status>
+export interface StatusPresentation {
+  // Badge background and text
+  badgeClass: string;
+  // Small colour dot, e.g. in the status dialog
+  dotClass: string;
+  // Colour of the large icon on the dashboard cards
+  iconClass: string;
+  icon: LucideIcon;
+}
+
+export const STATUS_PRESENTATION: Record<ChargerStatus, StatusPresentation> = {
+  available: {
+    badgeClass: "bg-green-100 text-green-800",
+    dotClass: "bg-green-500",
+    iconClass: "text-green-500",
+    icon: BatteryFull,
+  },
+  preparing: {
+    badgeClass: "bg-sky-100 text-sky-800",
+    dotClass: "bg-sky-500",
+    iconClass: "text-sky-500",
+    icon: PlugZap,
+  },
+  charging: {
+    badgeClass: "bg-[#e6eeff] text-[#0a2158]",
+    dotClass: "bg-blue-500",
+    iconClass: "text-[#0a2158] animate-pulse",
+    icon: BatteryCharging,
+  },
+  finishing: {
+    badgeClass: "bg-teal-100 text-teal-800",
+    dotClass: "bg-teal-500",
+    iconClass: "text-teal-500",
+    icon: BatteryMedium,
+  },
+  reserved: {
+    badgeClass: "bg-purple-100 text-purple-800",
+    dotClass: "bg-purple-500",
+    iconClass: "text-purple-500",
+    icon: CalendarClock,
+  },
+  maintenance: {
+    badgeClass: "bg-amber-100 text-amber-800",
+    dotClass: "bg-amber-500",
+    iconClass: "text-amber-500",
+    icon: BatteryWarning,
+  },
+  error: {
+    badgeClass: "bg-red-100 text-red-800",
+    dotClass: "bg-red-500",
+    iconClass: "text-red-500",
+    icon: AlertTriangle,
+  },
+  offline: {
+    badgeClass: "bg-gray-200 text-gray-700",
+    dotClass: "bg-gray-500",
+    iconClass: "text-gray-500",
+    icon: Unplug,
+  },
+  unknown: {
+    badgeClass: "bg-gray-100 text-gray-800",
+    dotClass: "bg-gray-300",
+    iconClass: "text-gray-400",
+    icon: Battery,
+  },
+}
+
+// Presentation of any status string, e.g. from old history entries; unrecognised ones show as unknown
+export function getStatusPresentation(status: string): StatusPresentation {
+  return STATUS_PRESENTATION[isChargerStatus(status) ? status : "unknown"]
+}
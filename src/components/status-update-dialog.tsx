@@ -12,6 +12,13 @@ import {
 import { Button } from "@/components/ui/button"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
+import { useI18n } from "@/components/i18n-provider"
+import { STATUS_PRESENTATION } from "@/components/status-presentation"
+import { canSetStatus, MANUAL_STATUSES, type Role } from "@/lib/auth/roles"
+import { canTransition, type ChargerStatus } from "@/lib/status"
+
+// Expiry choices besides "until-change", in minutes
+const TTL_OPTIONS = [60, 240, 1440]
 
 interface StatusUpdateDialogProps {
   open: boolean
@@ -20,8 +27,10 @@ interface StatusUpdateDialogProps {
     evseId: string
     location: string
   }
-  onStatusUpdate: (status: string) => void
-  currentStatus: string
+  onStatusUpdate: (status: ChargerStatus) => void
+  currentStatus: ChargerStatus
+  // Statuses the role may not set are shown but cannot be selected
+  role?: Role
 }
 
 export default function StatusUpdateDialog({
@@ -30,12 +39,30 @@ export default function StatusUpdateDialog({
   charger,
   onStatusUpdate,
   currentStatus,
+  role,
 }: StatusUpdateDialogProps) {
   const [status, setStatus] = useState(currentStatus)
+  const [reason, setReason] = useState("")
+  // "until-change" or a duration in minutes
+  const [expiry, setExpiry] = useState("until-change")
   const [isUpdating, setIsUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { t } = useI18n()
+
+  // Start from the charger's current status whenever the dialog opens again
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setStatus(currentStatus)
+      setReason("")
+      setError(null)
+    }
+    onOpenChange(open)
+  }
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
     setIsUpdating(true)
+    setError(null)
     try {
       const response = await fetch("/api/update-status", {
         method: "POST",
@@ -45,69 +72,102 @@ export default function StatusUpdateDialog({
         body: JSON.stringify({
           evseId: charger.evseId,
           status,
+          reason,
+          ...(expiry === "until-change" ? { policy: "until-change" } : { policy: "ttl", ttlMinutes: Number(expiry) }),
         }),
       })
 
       if (response.ok) {
         onStatusUpdate(status)
+        setReason("")
         onOpenChange(false)
+      } else if (response.status === 401 || response.status === 403) {
+        setError(t("statusDialog.forbidden"))
       } else {
-        console.error("Failed to update status")
+        console.error(`Failed to update status: ${response.statusText}`)
+        setError(t("statusDialog.failed"))
       }
     } catch (error) {
       console.error("Error updating status:", error)
+      setError(t("statusDialog.failed"))
     } finally {
       setIsUpdating(false)
     }
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Status aktualisieren</DialogTitle>
-          <DialogDescription>Manuell den Status für {charger.location} aktualisieren</DialogDescription>
+          <DialogTitle>{t("statusDialog.title")}</DialogTitle>
+          <DialogDescription>{t("statusDialog.description", { location: charger.location })}</DialogDescription>
         </DialogHeader>
 
         <div className="py-4">
-          <RadioGroup value={status} onValueChange={setStatus} className="space-y-3">
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="available" id="available" />
-              <Label htmlFor="available" className="flex items-center">
-                <span className="inline-block w-3 h-3 rounded-full bg-green-500 mr-2"></span>
-                Available
-              </Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="charging" id="charging" />
-              <Label htmlFor="charging" className="flex items-center">
-                <span className="inline-block w-3 h-3 rounded-full bg-blue-500 mr-2"></span>
-                Occupied
-              </Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="maintenance" id="maintenance" />
-              <Label htmlFor="maintenance" className="flex items-center">
-                <span className="inline-block w-3 h-3 rounded-full bg-amber-500 mr-2"></span>
-                Maintenance
-              </Label>
+          <RadioGroup value={status} onValueChange={(value) => setStatus(value as ChargerStatus)} className="space-y-3">
+            {MANUAL_STATUSES.map((option) => {
+              const selectable = canSetStatus(role, option)
+              return (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={option} disabled={!selectable} />
+                  <Label htmlFor={option} className={`flex items-center ${selectable ? "" : "opacity-50"}`}>
+                    <span className={`inline-block w-3 h-3 rounded-full ${STATUS_PRESENTATION[option].dotClass} mr-2`}></span>
+                    {t(`status.${option}`)}
+                  </Label>
+                </div>
+              )
+            })}
+          </RadioGroup>
+
+          <div className="mt-4 flex flex-col gap-2">
+            <Label htmlFor="reason">{t("statusDialog.reason")}</Label>
+            <textarea
+              id="reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder={t("statusDialog.reasonPlaceholder")}
+              maxLength={500}
+              rows={3}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0a2158]"
+            />
+          </div>
+
+          <div className="mt-4 flex flex-col gap-2">
+            <Label htmlFor="expiry">{t("statusDialog.expiry")}</Label>
+            <select
+              id="expiry"
+              value={expiry}
+              onChange={(event) => setExpiry(event.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="until-change">{t("statusDialog.untilChange")}</option>
+              {TTL_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 60 ? t("statusDialog.oneHour") : t("statusDialog.hours", { count: minutes / 60 })}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {!canTransition(currentStatus, status) && (
+            <div className="mt-4 text-sm text-amber-700">
+              {t("statusDialog.unusualTransition", { from: t(`status.${currentStatus}`), to: t(`status.${status}`) })}
             </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="error" id="error" />
-              <Label htmlFor="error" className="flex items-center">
-                <span className="inline-block w-3 h-3 rounded-full bg-red-500 mr-2"></span>
-                Error
-              </Label>
+          )}
+
+          {error && (
+            <div className="mt-4 text-sm text-red-500">
+              {error}
             </div>
-          </RadioGroup>
+          )}
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Abbrechen
+            {t("common.cancel")}
           </Button>
-          <Button onClick={handleSubmit} disabled={isUpdating}>
-            {isUpdating ? "Aktualisiere..." : "Aktualisieren"}
+          <Button onClick={handleSubmit} disabled={isUpdating || !canSetStatus(role, status) || !reason.trim()}>
+            {isUpdating ? t("statusDialog.submitting") : t("statusDialog.submit")}
           </Button>
         </DialogFooter>
       </DialogContent>
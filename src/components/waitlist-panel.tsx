@@ -0,0 +1,166 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/components/i18n-provider"
+import { Users, Clock } from "lucide-react"
+
+// Public queue state as returned by /api/queue and pushed via the stream
+export interface WaitlistState {
+  entries: { id: string; name: string; siteId: string; joinedAt: string; position: number }[]
+  claims: { entryId: string; name: string; evseId: string; siteId: string; offeredAt: string; expiresAt: string }[]
+}
+
+interface WaitlistPanelProps {
+  waitlist: WaitlistState
+  // The site whose line is shown and joined
+  siteId: string
+  chargerNames: Record<string, string>
+  onChange: (waitlist: WaitlistState) => void
+}
+
+const CLIENT_ID_KEY = "waitlist.clientId"
+const ENTRY_ID_KEY = "waitlist.entryId"
+const NAME_KEY = "waitlist.name"
+
+// Identifies this browser to the queue; never shown to other dashboards
+function getClientId() {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY)
+  if (!clientId) {
+    clientId = crypto.randomUUID()
+    localStorage.setItem(CLIENT_ID_KEY, clientId)
+  }
+  return clientId
+}
+
+function formatCountdown(milliseconds: number) {
+  const seconds = Math.max(0, Math.round(milliseconds / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+export function WaitlistPanel({ waitlist, siteId, chargerNames, onChange }: WaitlistPanelProps) {
+  const [name, setName] = useState("")
+  const [entryId, setEntryId] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const { t } = useI18n()
+
+  useEffect(() => {
+    setName(localStorage.getItem(NAME_KEY) ?? "")
+    setEntryId(localStorage.getItem(ENTRY_ID_KEY))
+  }, [])
+
+  const entries = waitlist.entries.filter((entry) => entry.siteId === siteId)
+  const ownEntry = waitlist.entries.find((entry) => entry.id === entryId)
+  const ownClaim = waitlist.claims.find((claim) => claim.entryId === entryId)
+
+  // Only tick while there is a countdown to show
+  useEffect(() => {
+    if (!ownClaim) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [ownClaim])
+
+  const sendAction = async (action: "join" | "leave" | "accept" | "skip") => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/queue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, name, siteId, clientId: getClientId() }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || response.statusText)
+      }
+
+      if (action === "join") {
+        localStorage.setItem(ENTRY_ID_KEY, data.entryId)
+        localStorage.setItem(NAME_KEY, name)
+        setEntryId(data.entryId)
+      } else if (action === "leave" || action === "accept") {
+        localStorage.removeItem(ENTRY_ID_KEY)
+        setEntryId(null)
+      }
+      onChange({ entries: data.entries, claims: data.claims })
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`Error sending queue action ${action}:`, errorMessage)
+      setError(errorMessage)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card className="mb-6 border-0 shadow-md overflow-hidden">
+      <CardHeader className="bg-white border-b border-gray-100">
+        <CardTitle className="flex items-center gap-2 text-[#0a2158]">
+          <Users className="h-5 w-5" />
+          {t("waitlist.title")}
+        </CardTitle>
+        <CardDescription>
+          {entries.length === 0
+            ? t("waitlist.empty")
+            : t(entries.length === 1 ? "waitlist.waitingOne" : "waitlist.waitingMany", {
+                count: entries.length,
+                names: entries.map((entry) => entry.name).join(", "),
+              })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="bg-white pt-6">
+        {ownClaim ? (
+          <div className="flex flex-col gap-3 rounded-md bg-green-50 p-4 text-green-900 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-2">
+              <Clock className="h-5 w-5 flex-shrink-0" />
+              <span>
+                {t("waitlist.claim", { charger: chargerNames[ownClaim.evseId] ?? ownClaim.evseId })}{" "}
+                <span className="font-semibold tabular-nums">{formatCountdown(new Date(ownClaim.expiresAt).getTime() - now)}</span>
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => sendAction("accept")} disabled={busy} className="bg-[#0a2158] hover:bg-[#0a2158]/90">
+                {t("waitlist.accept")}
+              </Button>
+              <Button onClick={() => sendAction("skip")} disabled={busy} variant="outline" className="border-[#0a2158] text-[#0a2158]">
+                {t("waitlist.skip")}
+              </Button>
+            </div>
+          </div>
+        ) : ownEntry ? (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-gray-700">
+              {t("waitlist.position", { position: ownEntry.position })}
+            </span>
+            <Button onClick={() => sendAction("leave")} disabled={busy} variant="outline" className="border-[#0a2158] text-[#0a2158]">
+              {t("waitlist.leave")}
+            </Button>
+          </div>
+        ) : (
+          <form
+            className="flex flex-col gap-2 sm:flex-row"
+            onSubmit={(event) => {
+              event.preventDefault()
+              sendAction("join")
+            }}
+          >
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={t("waitlist.namePlaceholder")}
+              maxLength={50}
+              className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#0a2158]"
+            />
+            <Button type="submit" disabled={busy || !name.trim()} className="bg-[#0a2158] hover:bg-[#0a2158]/90">
+              {t("waitlist.join")}
+            </Button>
+          </form>
+        )}
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
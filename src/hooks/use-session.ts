@@ -0,0 +1,41 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { SessionUser } from "@/lib/auth/roles"
+
+interface SessionState {
+  user: SessionUser | null
+  oidc: boolean
+  loading: boolean
+}
+
+// The signed-in user as reported by /api/auth/session
+export function useSession() {
+  const [state, setState] = useState<SessionState>({ user: null, oidc: false, loading: true })
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/session")
+      if (!response.ok) {
+        throw new Error(`Failed to fetch session: ${response.statusText}`)
+      }
+      const { user, oidc } = await response.json()
+      setState({ user, oidc, loading: false })
+    } catch (error) {
+      console.error("Error fetching session:", error)
+      setState((current) => ({ ...current, loading: false }))
+    }
+  }, [])
+
+  const logout = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" })
+    // Which sites and chargers are visible depends on the session, so start over like a login does
+    window.location.reload()
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { ...state, refresh, logout }
+}
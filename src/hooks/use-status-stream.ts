@@ -0,0 +1,70 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+export type StreamState = "connecting" | "live" | "disconnected"
+
+const MIN_RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30 * 1000
+
+// Subscribe to /api/stream and reconnect with backoff whenever the connection drops
+export function useStatusStream<T, Q = unknown>(onStatus: (data: T) => void, onQueue?: (queue: Q) => void): StreamState {
+  const [state, setState] = useState<StreamState>("connecting")
+  const onStatusRef = useRef(onStatus)
+  const onQueueRef = useRef(onQueue)
+
+  useEffect(() => {
+    onStatusRef.current = onStatus
+    onQueueRef.current = onQueue
+  }, [onStatus, onQueue])
+
+  useEffect(() => {
+    let source: EventSource | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let delay = MIN_RECONNECT_DELAY
+    let closed = false
+
+    const connect = () => {
+      setState("connecting")
+      source = new EventSource("/api/stream")
+
+      source.onopen = () => {
+        delay = MIN_RECONNECT_DELAY
+        setState("live")
+      }
+
+      source.addEventListener("snapshot", (event) => {
+        const statuses: T[] = JSON.parse((event as MessageEvent).data)
+        statuses.forEach((data) => onStatusRef.current(data))
+      })
+
+      source.addEventListener("status", (event) => {
+        onStatusRef.current(JSON.parse((event as MessageEvent).data))
+      })
+
+      source.addEventListener("queue", (event) => {
+        onQueueRef.current?.(JSON.parse((event as MessageEvent).data))
+      })
+
+      source.onerror = () => {
+        // Handle reconnecting ourselves so we control the backoff
+        source?.close()
+        setState("disconnected")
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, delay)
+          delay = Math.min(delay * 2, MAX_RECONNECT_DELAY)
+        }
+      }
+    }
+
+    connect()
+
+    return () => {
+      closed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      source?.close()
+    }
+  }, [])
+
+  return state
+}
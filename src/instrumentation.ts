@@ -0,0 +1,18 @@
+// Runs once when the server starts
+export async function register() {
+  // The scheduler uses puppeteer and timers, so only start it in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/lib/scheduler")
+    const { startWaitlist } = await import("@/lib/waitlist")
+    const { startWebhooks } = await import("@/lib/webhooks")
+    startWaitlist()
+    startWebhooks()
+    startScheduler()
+
+    // The OCPP central system is opt-in, it needs its own port
+    if (process.env.OCPP_PORT) {
+      const { startOcppServer } = await import("@/lib/ocpp/server")
+      startOcppServer()
+    }
+  }
+}
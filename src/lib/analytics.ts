@@ -0,0 +1,75 @@
+import type { StatusObservation } from "@/lib/history"
+import { isInUse } from "@/lib/status"
+
+// Buckets are computed in the chargers' local time, not the server's
+export const ANALYTICS_TIME_ZONE = process.env.ANALYTICS_TIME_ZONE || "Europe/Berlin"
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+
+export interface UtilizationBucket {
+  charging: number;
+  available: number;
+  // Share of charging observations in percent, null if nothing was observed
+  occupancy: number | null;
+}
+
+export interface ChargerUtilization {
+  evseId: string;
+  // Indexed [weekday][hour], weekday 0 is Monday
+  buckets: UtilizationBucket[][];
+  observations: number;
+}
+
+const bucketFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: ANALYTICS_TIME_ZONE,
+  weekday: "short",
+  hour: "2-digit",
+  hourCycle: "h23",
+})
+
+function getBucket(timestamp: string): { weekday: number; hour: number } | null {
+  const date = new Date(timestamp)
+  if (isNaN(date.getTime())) return null
+
+  const parts = bucketFormat.formatToParts(date)
+  const weekday = WEEKDAYS.indexOf(parts.find((part) => part.type === "weekday")?.value || "")
+  const hour = Number(parts.find((part) => part.type === "hour")?.value)
+  return weekday >= 0 && !isNaN(hour) ? { weekday, hour } : null
+}
+
+function emptyBuckets(): UtilizationBucket[][] {
+  return Array.from({ length: 7 }, () =>
+    Array.from({ length: 24 }, () => ({ charging: 0, available: 0, occupancy: null })),
+  )
+}
+
+// Occupancy per charger and weekday/hour; only observations of a charger in use
+// or available count, everything else says nothing about demand
+export function computeUtilization(observations: StatusObservation[], evseIds: string[]): ChargerUtilization[] {
+  const result = new Map<string, ChargerUtilization>(
+    evseIds.map((evseId) => [evseId, { evseId, buckets: emptyBuckets(), observations: 0 }]),
+  )
+
+  for (const observation of observations) {
+    const inUse = isInUse(observation.status)
+    if (!inUse && observation.status !== "available") continue
+
+    const utilization = result.get(observation.evseId)
+    const bucket = getBucket(observation.timestamp)
+    if (!utilization || !bucket) continue
+
+    utilization.buckets[bucket.weekday][bucket.hour][inUse ? "charging" : "available"] += 1
+    utilization.observations += 1
+  }
+
+  for (const utilization of result.values()) {
+    for (const day of utilization.buckets) {
+      for (const bucket of day) {
+        const total = bucket.charging + bucket.available
+        bucket.occupancy = total > 0 ? Math.round((bucket.charging / total) * 1000) / 10 : null
+      }
+    }
+  }
+
+  return [...result.values()]
+}
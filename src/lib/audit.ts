@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto"
+import type { SessionUser } from "@/lib/auth/roles"
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "@/lib/history"
+import type { ChargerStatus } from "@/lib/status"
+import { appendJsonLine, readJsonLines } from "@/lib/storage"
+
+const AUDIT_FILE = "audit.jsonl"
+
+export const MAX_REASON_LENGTH = 500
+
+// One manual status override and who is responsible for it
+export interface AuditEntry {
+  id: string;
+  evseId: string;
+  username: string;
+  name: string;
+  role: string;
+  previousStatus: ChargerStatus;
+  newStatus: ChargerStatus;
+  reason: string;
+  timestamp: string;
+}
+
+export interface AuditQuery {
+  evseId?: string;
+  // Only these chargers, e.g. those of one site
+  evseIds?: string[];
+  username?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditPage {
+  items: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+// Unlike history, a failed write is not swallowed: an override we cannot account for must not happen
+export async function recordOverride(
+  user: SessionUser,
+  override: Pick<AuditEntry, "evseId" | "previousStatus" | "newStatus" | "reason">,
+): Promise<AuditEntry> {
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    ...override,
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    timestamp: new Date().toISOString(),
+  }
+  await appendJsonLine(AUDIT_FILE, entry)
+  return entry
+}
+
+// All overrides matching the filter, oldest first
+export async function getAuditEntries(query: Omit<AuditQuery, "limit" | "offset"> = {}): Promise<AuditEntry[]> {
+  const fromTime = query.from?.getTime() ?? -Infinity
+  const toTime = query.to?.getTime() ?? Infinity
+
+  const entries = await readJsonLines<AuditEntry>(AUDIT_FILE)
+  return entries.filter((entry) => {
+    if (query.evseId && entry.evseId !== query.evseId) return false
+    if (query.evseIds && !query.evseIds.includes(entry.evseId)) return false
+    if (query.username && entry.username !== query.username) return false
+    const time = new Date(entry.timestamp).getTime()
+    return time >= fromTime && time <= toTime
+  })
+}
+
+// One page of matching overrides, newest first
+export async function queryAudit(query: AuditQuery = {}): Promise<AuditPage> {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(query.offset ?? 0, 0)
+
+  const matches = (await getAuditEntries(query)).reverse()
+  const items = matches.slice(offset, offset + limit)
+
+  return {
+    items,
+    total: matches.length,
+    limit,
+    offset,
+    nextOffset: offset + items.length < matches.length ? offset + items.length : null,
+  }
+}
@@ -0,0 +1,124 @@
+import { createHash, randomBytes } from "crypto"
+import { isRole, ROLES, type Role, type SessionUser } from "@/lib/auth/roles"
+import { singleton } from "@/lib/singleton"
+
+// Any OpenID Connect provider with discovery, e.g. Entra ID, Keycloak or Google Workspace
+const OIDC_ISSUER = process.env.OIDC_ISSUER?.replace(/\/$/, "")
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID
+const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET
+// Userinfo claim holding role names; users without a known role get OIDC_DEFAULT_ROLE
+const OIDC_ROLE_CLAIM = process.env.OIDC_ROLE_CLAIM || "roles"
+const OIDC_DEFAULT_ROLE: Role = isRole(process.env.OIDC_DEFAULT_ROLE) ? process.env.OIDC_DEFAULT_ROLE : "employee"
+// Userinfo claim listing the site ids a user works at; without it the user sees every site
+const OIDC_SITES_CLAIM = process.env.OIDC_SITES_CLAIM || "sites"
+// Needed behind a reverse proxy, where the request URL is not what the browser sees
+const OIDC_REDIRECT_URI = process.env.OIDC_REDIRECT_URI
+
+const REQUEST_TIMEOUT = 10 * 1000
+
+export const OIDC_STATE_COOKIE = "oidc_state"
+
+interface DiscoveryDocument {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+// What the login route keeps in a short-lived cookie until the callback
+export interface OidcLoginState {
+  state: string;
+  verifier: string;
+  next: string;
+}
+
+const discovery = singleton("oidcDiscovery", () => ({ document: null as DiscoveryDocument | null }))
+
+export function isOidcEnabled() {
+  return Boolean(OIDC_ISSUER && OIDC_CLIENT_ID)
+}
+
+export function getRedirectUri(request: Request) {
+  return OIDC_REDIRECT_URI || `${new URL(request.url).origin}/api/auth/oidc/callback`
+}
+
+async function discover(): Promise<DiscoveryDocument> {
+  if (!discovery.document) {
+    const response = await fetch(`${OIDC_ISSUER}/.well-known/openid-configuration`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    })
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with ${response.status}`)
+    }
+    discovery.document = (await response.json()) as DiscoveryDocument
+  }
+  return discovery.document
+}
+
+// Authorization code flow with PKCE
+export async function createAuthorizationRequest(redirectUri: string, next: string) {
+  const { authorization_endpoint } = await discover()
+  const loginState: OidcLoginState = {
+    state: randomBytes(16).toString("base64url"),
+    verifier: randomBytes(32).toString("base64url"),
+    next,
+  }
+
+  const url = new URL(authorization_endpoint)
+  url.searchParams.set("response_type", "code")
+  url.searchParams.set("client_id", OIDC_CLIENT_ID!)
+  url.searchParams.set("redirect_uri", redirectUri)
+  url.searchParams.set("scope", "openid profile email")
+  url.searchParams.set("state", loginState.state)
+  url.searchParams.set("code_challenge", createHash("sha256").update(loginState.verifier).digest("base64url"))
+  url.searchParams.set("code_challenge_method", "S256")
+
+  return { url: url.toString(), loginState }
+}
+
+// Highest role named in the claim, which may be a single string or a list
+function mapRole(claim: unknown): Role {
+  const values = (Array.isArray(claim) ? claim : [claim]).filter(isRole)
+  const highest = [...ROLES].reverse().find((role) => values.includes(role))
+  return highest ?? OIDC_DEFAULT_ROLE
+}
+
+// Exchange the code and look the user up; the userinfo endpoint saves us verifying the ID token ourselves
+export async function completeLogin(code: string, verifier: string, redirectUri: string): Promise<SessionUser> {
+  const { token_endpoint, userinfo_endpoint } = await discover()
+
+  const tokenResponse = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: OIDC_CLIENT_ID!,
+      code_verifier: verifier,
+      ...(OIDC_CLIENT_SECRET ? { client_secret: OIDC_CLIENT_SECRET } : {}),
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+  if (!tokenResponse.ok) {
+    throw new Error(`OIDC token exchange failed with ${tokenResponse.status}`)
+  }
+  const { access_token } = await tokenResponse.json()
+
+  const userinfoResponse = await fetch(userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${access_token}` },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+  if (!userinfoResponse.ok) {
+    throw new Error(`OIDC userinfo request failed with ${userinfoResponse.status}`)
+  }
+  const claims = await userinfoResponse.json()
+
+  const username = claims.preferred_username || claims.email || claims.sub
+  const sites = claims[OIDC_SITES_CLAIM]
+  return {
+    username,
+    name: claims.name || username,
+    role: mapRole(claims[OIDC_ROLE_CLAIM]),
+    sites: Array.isArray(sites) ? sites.filter((site): site is string => typeof site === "string") : undefined,
+  }
+}
@@ -0,0 +1,59 @@
+// Shared by server and client: no Node.js imports here
+import type { ChargerStatus } from "@/lib/status"
+
+export const ROLES = ["viewer", "employee", "admin"] as const
+
+export type Role = (typeof ROLES)[number]
+
+// The signed-in user as carried in the session
+export interface SessionUser {
+  username: string;
+  name: string;
+  role: Role;
+  // Sites the user works at; unset for management, who see every site
+  sites?: string[];
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role)
+}
+
+// Roles are ordered: every role may do what the ones before it may
+export function hasRole(role: Role | undefined, required: Role) {
+  return role !== undefined && ROLES.indexOf(role) >= ROLES.indexOf(required)
+}
+
+// Sites a user may see, undefined meaning all of them; visitors without a login
+// get publicSites, which the server resolves from its configuration
+function visibleSites(user: SessionUser | null | undefined, publicSites: string[] | undefined) {
+  return user ? user.sites : publicSites
+}
+
+export function canAccessSite(user: SessionUser | null | undefined, siteId: string, publicSites: string[] | undefined) {
+  const sites = visibleSites(user, publicSites)
+  return !sites || sites.includes(siteId)
+}
+
+// Sites a listing should cover: the requested one, else all the user may see (undefined means all)
+export function siteScope(user: SessionUser | null | undefined, siteId: string | undefined, publicSites: string[] | undefined) {
+  return siteId ? [siteId] : visibleSites(user, publicSites)
+}
+
+// Employees report what they see in the car park; taking a charger out of service is up to facility admins.
+// Preparing and finishing only last moments and are left to the chargers themselves.
+const STATUS_ROLES: Partial<Record<ChargerStatus, Role>> = {
+  available: "employee",
+  charging: "employee",
+  reserved: "employee",
+  maintenance: "admin",
+  error: "admin",
+  offline: "admin",
+}
+
+// Statuses that can be set by hand at all, in display order
+export const MANUAL_STATUSES = Object.keys(STATUS_ROLES) as ChargerStatus[]
+
+export function canSetStatus(role: Role | undefined, status: string) {
+  const required = STATUS_ROLES[status as ChargerStatus]
+  return required !== undefined && hasRole(role, required)
+}
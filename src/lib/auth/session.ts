@@ -0,0 +1,136 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+import { canAccessSite, hasRole, isRole, type Role, type SessionUser } from "@/lib/auth/roles"
+import { authenticate, getSessionUser } from "@/lib/auth/users"
+import { singleton } from "@/lib/singleton"
+import { listSites } from "@/lib/sites"
+
+export const SESSION_COOKIE = "session"
+// Sessions last one working day
+export const SESSION_MAX_AGE = (Number(process.env.SESSION_HOURS) || 12) * 60 * 60
+
+interface SessionPayload extends SessionUser {
+  provider: "local" | "oidc";
+  exp: number;
+}
+
+// Without AUTH_SECRET every restart signs everybody out
+const fallbackSecret = singleton("sessionSecret", () => {
+  if (!process.env.AUTH_SECRET) {
+    console.warn("AUTH_SECRET is not set, using a random secret; sessions will not survive a restart")
+  }
+  return randomBytes(32).toString("hex")
+})
+
+function getSecret() {
+  return process.env.AUTH_SECRET || fallbackSecret
+}
+
+function sign(value: string) {
+  return createHmac("sha256", getSecret()).update(value).digest("base64url")
+}
+
+// "<base64url(json)>.<hmac>", valid for maxAge seconds
+export function signToken(payload: object, maxAge: number) {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + maxAge })).toString("base64url")
+  return `${body}.${sign(body)}`
+}
+
+// The payload of a token we signed that has not expired yet, null otherwise
+export function verifyToken<T>(token: string | undefined): (T & { exp: number }) | null {
+  const [body, signature] = (token ?? "").split(".")
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(sign(body))
+  const presented = Buffer.from(signature)
+  if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"))
+    return typeof payload.exp === "number" && payload.exp * 1000 > Date.now() ? payload : null
+  } catch {
+    return null
+  }
+}
+
+export function readCookie(request: Request, name: string) {
+  for (const part of (request.headers.get("cookie") || "").split(";")) {
+    const [key, ...value] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(value.join("="))
+  }
+  return undefined
+}
+
+export function setSessionCookie(response: NextResponse, user: SessionUser, provider: SessionPayload["provider"]) {
+  const token = signToken({ username: user.username, name: user.name, role: user.role, sites: user.sites, provider }, SESSION_MAX_AGE)
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 })
+}
+
+// The signed-in user from the session cookie, or from HTTP Basic credentials for scripts
+export async function getSession(request: Request): Promise<SessionUser | null> {
+  const payload = verifyToken<SessionPayload>(readCookie(request, SESSION_COOKIE))
+  if (payload && isRole(payload.role)) {
+    if (payload.provider === "local") {
+      return getSessionUser(payload.username)
+    }
+    return { username: payload.username, name: payload.name, role: payload.role, sites: payload.sites }
+  }
+
+  const header = request.headers.get("authorization") || ""
+  const match = header.match(/^Basic\s+(\S+)$/i)
+  if (match) {
+    const [username, ...password] = Buffer.from(match[1], "base64").toString("utf8").split(":")
+    return authenticate(username, password.join(":"))
+  }
+
+  return null
+}
+
+// Returns an error response unless the user has at least the given role, null otherwise
+export function roleError(user: SessionUser | null, role: Role) {
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+  }
+  if (!hasRole(user.role, role)) {
+    return NextResponse.json({ error: `This action requires the ${role} role` }, { status: 403 })
+  }
+  // Admin actions reach every site, so an admin limited to some sites (e.g. by an OIDC claim) may not take them
+  if (role === "admin" && user.sites) {
+    return NextResponse.json({ error: "This action requires an admin without site restriction" }, { status: 403 })
+  }
+  return null
+}
+
+// Sites visitors without a login may see, undefined meaning all: those in PUBLIC_SITES ("*" for every
+// site); without it a single-site installation stays open, as it was before sites existed, and others are closed
+export async function getPublicSites(): Promise<string[] | undefined> {
+  const configured = process.env.PUBLIC_SITES?.trim()
+  if (configured === "*") return undefined
+  if (configured) return configured.split(",").map((siteId) => siteId.trim()).filter(Boolean)
+  return (await listSites()).length <= 1 ? undefined : []
+}
+
+// Returns a 401/403 response if the user (or visitor) may not see the site, null otherwise
+export function siteError(user: SessionUser | null, siteId: string | undefined, publicSites: string[] | undefined) {
+  if (siteId && !canAccessSite(user, siteId, publicSites)) {
+    if (!user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+    return NextResponse.json({ error: `You have no access to site ${siteId}` }, { status: 403 })
+  }
+  return null
+}
+
+export async function checkRole(request: Request, role: Role) {
+  return roleError(await getSession(request), role)
+}
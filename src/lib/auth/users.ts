@@ -0,0 +1,253 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import { isRole, ROLES, type Role, type SessionUser } from "@/lib/auth/roles"
+import { singleton } from "@/lib/singleton"
+import { findUnknownSites, SITE_ID_PATTERN } from "@/lib/sites"
+import { readJsonFile, writeJsonFile } from "@/lib/storage"
+
+const USERS_FILE = "users.json"
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+const MIN_PASSWORD_LENGTH = 10
+// Compared against for unknown usernames so they take as long as wrong passwords
+const DUMMY_HASH = `scrypt$${Buffer.alloc(16).toString("base64")}$${Buffer.alloc(KEY_LENGTH).toString("base64")}`
+
+// A local account; passwords are stored as "scrypt$<salt>$<hash>"
+export interface LocalUser {
+  username: string;
+  name: string;
+  role: Role;
+  // Sites the user works at; unset for access to every site
+  sites?: string[];
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+  disabled?: boolean;
+}
+
+export type PublicUser = Omit<LocalUser, "passwordHash">
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number, public details: string[] = []) {
+    super(message)
+    this.name = "AuthError"
+  }
+}
+
+const state = singleton("users", () => ({
+  users: null as Record<string, LocalUser> | null,
+  // Serialises writes so concurrent admin requests cannot overwrite each other
+  queue: Promise.resolve() as Promise<unknown>,
+}))
+
+async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$")
+  if (scheme !== "scrypt" || !salt || !hash) return false
+  const expected = Buffer.from(hash, "base64")
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+// An empty store gets the admin from AUTH_ADMIN_USER / AUTH_ADMIN_PASSWORD, so there is someone to create the others
+async function load(): Promise<Record<string, LocalUser>> {
+  if (!state.users) {
+    const stored = await readJsonFile<Record<string, LocalUser>>(USERS_FILE, {})
+    const password = process.env.AUTH_ADMIN_PASSWORD
+    if (Object.keys(stored).length === 0 && password) {
+      const username = process.env.AUTH_ADMIN_USER || "admin"
+      const now = new Date().toISOString()
+      stored[username] = {
+        username,
+        name: username,
+        role: "admin",
+        passwordHash: await hashPassword(password),
+        createdAt: now,
+        updatedAt: now,
+      }
+      await writeJsonFile(USERS_FILE, stored)
+    }
+    state.users ??= stored
+  }
+  return state.users
+}
+
+function mutate<T>(change: (users: Record<string, LocalUser>) => Promise<T>): Promise<T> {
+  const run = state.queue.then(async () => {
+    // Changed on a copy that only replaces the one in memory once it is on disk
+    const users = structuredClone(await load())
+    const result = await change(users)
+    await writeJsonFile(USERS_FILE, users)
+    state.users = users
+    return result
+  })
+  state.queue = run.catch(() => undefined)
+  return run
+}
+
+export function toPublicUser(user: LocalUser): PublicUser {
+  const { username, name, role, sites, createdAt, updatedAt, disabled } = user
+  return { username, name, role, sites, createdAt, updatedAt, disabled }
+}
+
+// Validate a create (partial = false) or edit (partial = true) payload
+function validateUserInput(input: unknown, partial: boolean) {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new AuthError("Request body must be a JSON object", 400)
+  }
+
+  const data = input as Record<string, unknown>
+  const errors: string[] = []
+  const result: { username?: string; name?: string; role?: Role; sites?: string[]; password?: string; disabled?: boolean } = {}
+
+  if (!partial) {
+    if (typeof data.username !== "string" || !/^[a-z0-9._-]{2,40}$/.test(data.username)) {
+      errors.push("username must be 2-40 lowercase letters, digits or . _ -")
+    } else {
+      result.username = data.username
+    }
+  } else if (data.username !== undefined) {
+    errors.push("username cannot be changed")
+  }
+
+  if (data.name !== undefined) {
+    if (typeof data.name !== "string" || !data.name.trim() || data.name.length > 100) {
+      errors.push("name must be a non-empty string of at most 100 characters")
+    } else {
+      result.name = data.name.trim()
+    }
+  }
+
+  if (data.role !== undefined || !partial) {
+    if (!isRole(data.role)) {
+      errors.push(`role must be one of ${ROLES.join(", ")}`)
+    } else {
+      result.role = data.role
+    }
+  }
+
+  // null gives the user access to every site again
+  if (data.sites === null) {
+    result.sites = undefined
+  } else if (data.sites !== undefined) {
+    if (!Array.isArray(data.sites) || data.sites.some((site) => typeof site !== "string" || !SITE_ID_PATTERN.test(site))) {
+      errors.push("sites must be an array of site ids, or null for all sites")
+    } else {
+      result.sites = [...new Set(data.sites as string[])]
+    }
+  }
+
+  if (data.password !== undefined || !partial) {
+    if (typeof data.password !== "string" || data.password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    } else {
+      result.password = data.password
+    }
+  }
+
+  if (data.disabled !== undefined) {
+    if (typeof data.disabled !== "boolean") {
+      errors.push("disabled must be a boolean")
+    } else {
+      result.disabled = data.disabled
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AuthError("Invalid user data", 400, errors)
+  }
+
+  return result
+}
+
+export async function listUsers(): Promise<LocalUser[]> {
+  return Object.values(await load())
+}
+
+async function checkSites(sites: string[] | undefined) {
+  const unknown = await findUnknownSites(sites ?? [])
+  if (unknown.length > 0) {
+    throw new AuthError("Invalid user data", 400, [`Unknown sites: ${unknown.join(", ")}`])
+  }
+}
+
+// Admins manage chargers, users and webhooks of every site, so they cannot be limited to some
+function checkAdminSites(user: Pick<LocalUser, "role" | "sites">) {
+  if (user.role === "admin" && user.sites) {
+    throw new AuthError("Invalid user data", 400, ["admins cannot be limited to sites; set sites to null or choose another role"])
+  }
+}
+
+export async function createUser(input: unknown): Promise<LocalUser> {
+  const { username, name, role, sites, password } = validateUserInput(input, false)
+  checkAdminSites({ role: role!, sites })
+  await checkSites(sites)
+  return mutate(async (users) => {
+    if (users[username!]) {
+      throw new AuthError(`User ${username} already exists`, 409)
+    }
+    const now = new Date().toISOString()
+    const user: LocalUser = {
+      username: username!,
+      name: name ?? username!,
+      role: role!,
+      sites,
+      passwordHash: await hashPassword(password!),
+      createdAt: now,
+      updatedAt: now,
+    }
+    users[user.username] = user
+    return user
+  })
+}
+
+export async function updateUser(username: string, input: unknown): Promise<LocalUser> {
+  const { password, ...changes } = validateUserInput(input, true)
+  await checkSites(changes.sites)
+  return mutate(async (users) => {
+    const existing = users[username]
+    if (!existing) {
+      throw new AuthError(`No user found with name ${username}`, 404)
+    }
+    const user = { ...existing, ...changes, updatedAt: new Date().toISOString() }
+    checkAdminSites(user)
+    if (password) {
+      user.passwordHash = await hashPassword(password)
+    }
+    users[username] = user
+    return user
+  })
+}
+
+export function deleteUser(username: string): Promise<LocalUser> {
+  return mutate(async (users) => {
+    const existing = users[username]
+    if (!existing) {
+      throw new AuthError(`No user found with name ${username}`, 404)
+    }
+    delete users[username]
+    return existing
+  })
+}
+
+// Check a username and password against the local store
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+  const user = (await load())[username]
+  const valid = await verifyPassword(password, user?.passwordHash ?? DUMMY_HASH)
+  if (!user || user.disabled || !valid) return null
+  return { username: user.username, name: user.name, role: user.role, sites: user.sites }
+}
+
+// Current role of a local user, so role changes and disabling apply to existing sessions
+export async function getSessionUser(username: string): Promise<SessionUser | null> {
+  const user = (await load())[username]
+  if (!user || user.disabled) return null
+  return { username: user.username, name: user.name, role: user.role, sites: user.sites }
+}
@@ -1,16 +1,13 @@
-// Define a type for the user status data
-interface UserStatus {
-  status: string;
-  lastUpdated: string;
-  updatedBy: string;
-}
+import type { ChargerStatus } from "@/lib/status"
 
-const userStatusStore: Record<string, UserStatus> = {}
+// Manual overrides are kept on the server, which expires and reconciles them
+// with the scraped status; this module only reads and requests them.
 
 // Define proper types for the charger data
 export interface ChargerData {
   evseId: string;
-  status: string;
+  siteId?: string;
+  status: ChargerStatus;
   location: string;
   operator: string;
   address: string;
@@ -23,15 +20,26 @@ export interface ChargerData {
   lastUpdated: string;
   isRealTime: boolean;
   updatedBy?: string;
+  override?: {
+    status: ChargerStatus;
+    policy: "ttl" | "until-change";
+    setAt: string;
+    expiresAt: string;
+    setBy: string;
+    reason: string;
+  };
+  observedStatus?: ChargerStatus;
   error?: string;
 }
 
+// The charger's public page on chrg.direct
+export function getChrgDirectUrl(evseId: string) {
+  return `https://www.chrg.direct/?evseId=${encodeURIComponent(evseId)}`
+}
+
 // Function to get charger data from the API
 export async function getChargerData(evseId: string): Promise<ChargerData> {
   try {
-    // Check if we have a manual status update (user-set status)
-    const hasManualUpdate = userStatusStore[evseId]?.updatedBy === "user"
-
     // Try to get info from the charger URL
     const response = await fetch(`/api/charger?evseId=${encodeURIComponent(evseId)}`);
     if (!response.ok) {
@@ -39,49 +47,20 @@ export async function getChargerData(evseId: string): Promise<ChargerData> {
     }
     const data = await response.json();
 
-    // If there's an error in the API response, throw it
-    if (data.error) {
+    // If there's an error in the API response, throw it, unless an override still gives us a status
+    if (data.error && !data.override) {
       throw new Error(data.error);
     }
 
-    // If we have a manual update, use that status instead of the API status
-    if (hasManualUpdate) {
-      return {
-        ...data,
-        status: userStatusStore[evseId].status,
-        lastUpdated: new Date(userStatusStore[evseId].lastUpdated).toLocaleTimeString(),
-        updatedBy: "user",
-      }
-    }
-
-    // Otherwise, return the API data
     return {
       ...data,
       lastUpdated: new Date(data.lastUpdated).toLocaleTimeString(),
-      updatedBy: "system",
+      updatedBy: data.override ? data.override.setBy : "system",
     }
   } catch (error: unknown) {
     // Use error as unknown, then type check or cast as needed
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Error in getChargerData: ${errorMessage}`);
-    
-    // If we have a manual update, return that with the error
-    if (userStatusStore[evseId]?.updatedBy === "user") {
-      return {
-        evseId,
-        status: userStatusStore[evseId].status,
-        location: `Ladestation ${evseId.split("*").pop() || ""}`,
-        error: errorMessage,
-        lastUpdated: new Date(userStatusStore[evseId].lastUpdated).toLocaleTimeString(),
-        updatedBy: "user",
-        plugType: "Unknown",
-        power: "Unknown",
-        price: "Unknown",
-        operator: "Unknown",
-        address: "Unknown",
-        isRealTime: false,
-      }
-    }
 
     // Return a default error response
     return {
@@ -101,19 +80,28 @@ export async function getChargerData(evseId: string): Promise<ChargerData> {
   }
 }
 
-// Function to update charger status manually
-export async function updateChargerStatus(evseId: string, status: string) {
-  userStatusStore[evseId] = {
-    status,
-    lastUpdated: new Date().toISOString(),
-    updatedBy: "user",
+// Function to update charger status manually; the server records who did it and why
+export async function updateChargerStatus(
+  evseId: string,
+  status: ChargerStatus,
+  reason: string,
+  expiry: { policy: "ttl" | "until-change"; ttlMinutes?: number } = { policy: "until-change" },
+) {
+  const response = await fetch("/api/update-status", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ evseId, status, reason, ...expiry }),
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to update status: ${response.statusText}`)
   }
 
   return {
     success: true,
     evseId,
     status,
-    lastUpdated: new Date().toLocaleTimeString(),
+    lastUpdated: new Date(data.lastUpdated).toLocaleTimeString(),
+    expiresAt: data.override?.expiresAt as string | undefined,
   }
 }
-
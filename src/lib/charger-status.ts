@@ -0,0 +1,253 @@
+import { getActiveCharger, getTariff, type ChargerInfo } from "@/lib/chargers"
+import { recordObservation } from "@/lib/history"
+import type { Locale } from "@/lib/i18n"
+import { getOverride, reconcileOverride, type OverridePolicy, type StatusOverride } from "@/lib/overrides"
+import { resolveStatus } from "@/lib/providers"
+import { singleton } from "@/lib/singleton"
+import { statusLabel, type ChargerStatus } from "@/lib/status"
+import { publishStatus } from "@/lib/status-events"
+import type { Tariff } from "@/lib/tariffs"
+
+// Status of a charger combined with its master data, as served by /api/charger
+export interface ChargerStatusData {
+  evseId: string;
+  siteId: string;
+  status: ChargerStatus;
+  statusText: string;
+  location: string;
+  operator: string;
+  address: string;
+  plugType: string;
+  power: string;
+  steckertyp: string;
+  leistung: string;
+  preis: string;
+  tariff: Tariff | null;
+  lastUpdated: string;
+  isRealTime: boolean;
+  // Provider that delivered the status and how much we trust it
+  source: string | null;
+  confidence: number;
+  // Set when no status has been observed yet since the server started
+  pending?: boolean;
+  // Set while failed scrapes keep the last good status, see STALE_AFTER
+  stale?: boolean;
+  error?: string;
+  // Set while a manual override replaces the observed status
+  override?: OverrideInfo;
+  observedStatus?: ChargerStatus;
+}
+
+// What dashboards need to show about an active override
+export interface OverrideInfo {
+  status: ChargerStatus;
+  policy: OverridePolicy;
+  setAt: string;
+  expiresAt: string;
+  setBy: string;
+  reason: string;
+}
+
+export interface CacheEntry {
+  // What we serve: the observed status, or the override while one is active
+  data: ChargerStatusData;
+  // What the providers last reported, kept so overrides can be applied and lifted without scraping
+  observed: ChargerStatusData;
+  timestamp: number;
+  // When a provider last delivered a status, null if none has since the server started
+  lastSuccessAt: number | null;
+}
+
+// Results older than this count as stale and trigger a refresh when requested
+export const CACHE_DURATION = Number(process.env.STATUS_MAX_AGE_MS) || 2 * 60 * 1000
+
+// Read here rather than imported, as the scheduler imports this module
+const POLL_INTERVAL = Number(process.env.POLL_INTERVAL_MS) || 60 * 1000
+
+// A charger without a successful scrape for this long counts as stale; until then, failed
+// scrapes keep serving its last good status
+export const STALE_AFTER = Math.max(3 * POLL_INTERVAL, 5 * 60 * 1000)
+
+// Freshest known status per charger, filled by the scheduler
+const cache = singleton("chargerStatusCache", () => ({} as Record<string, CacheEntry>))
+
+// Scrapes in progress per charger; concurrent callers share one instead of opening more browser pages
+const inFlight = singleton("chargerRefreshes", () => new Map<string, Promise<ChargerStatusData>>())
+
+// Lifts an override at its expiry even if no scrape happens in between
+const expiryTimers = singleton("overrideExpiryTimers", () => new Map<string, NodeJS.Timeout>())
+
+// setTimeout fires at once for longer delays, so those are re-armed on the way
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+function toStatusData(charger: ChargerInfo, status: Pick<ChargerStatusData, "status" | "statusText" | "isRealTime" | "source" | "confidence" | "pending" | "error">): ChargerStatusData {
+  return {
+    evseId: charger.id,
+    siteId: charger.siteId,
+    location: charger.location,
+    operator: charger.operator,
+    address: charger.address,
+    plugType: charger.steckertyp,
+    power: charger.leistung,
+    steckertyp: charger.steckertyp,
+    leistung: charger.leistung,
+    preis: charger.preis,
+    tariff: getTariff(charger),
+    lastUpdated: new Date().toISOString(),
+    ...status,
+  }
+}
+
+function withOverride(observed: ChargerStatusData, override: StatusOverride | undefined): ChargerStatusData {
+  if (!override) return observed
+  return {
+    ...observed,
+    status: override.status,
+    statusText: statusLabel(override.status),
+    source: "manual",
+    confidence: 1,
+    pending: undefined,
+    observedStatus: observed.status,
+    override: {
+      status: override.status,
+      policy: override.policy,
+      setAt: override.setAt,
+      expiresAt: override.expiresAt,
+      setBy: override.name,
+      reason: override.reason,
+    },
+  }
+}
+
+function scheduleExpiry(charger: ChargerInfo, override: StatusOverride | undefined) {
+  clearTimeout(expiryTimers.get(charger.id))
+  expiryTimers.delete(charger.id)
+  if (override) {
+    const delay = Math.max(0, new Date(override.expiresAt).getTime() - Date.now())
+    const timer =
+      delay > MAX_TIMER_DELAY
+        ? setTimeout(() => scheduleExpiry(charger, override), MAX_TIMER_DELAY)
+        : setTimeout(() => expireOverride(charger.id), delay)
+    expiryTimers.set(charger.id, timer)
+  }
+}
+
+// The charger is looked up again: it may have been edited or retired since the timer was set
+async function expireOverride(evseId: string) {
+  expiryTimers.delete(evseId)
+  try {
+    const charger = await getActiveCharger(evseId)
+    if (charger) await applyOverride(charger)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error lifting the override of ${evseId}: ${errorMessage}`)
+  }
+}
+
+export function getCachedStatus(evseId: string): CacheEntry | undefined {
+  return cache[evseId]
+}
+
+export function getCachedStatuses(): ChargerStatusData[] {
+  return Object.values(cache).map((entry) => entry.data)
+}
+
+// statusText in the caller's language; the cache and history keep the default one
+export function localizeStatus(data: ChargerStatusData, locale: Locale): ChargerStatusData {
+  return { ...data, statusText: statusLabel(data.status, locale) }
+}
+
+export function isFresh(entry: CacheEntry) {
+  return Date.now() - entry.timestamp < CACHE_DURATION
+}
+
+// Served before the first scrape of a charger has finished
+export function pendingStatus(charger: ChargerInfo): ChargerStatusData {
+  return toStatusData(charger, {
+    status: "unknown",
+    statusText: statusLabel("unknown"),
+    isRealTime: false,
+    source: null,
+    confidence: 0,
+    pending: true,
+  })
+}
+
+export function isRefreshing(evseId: string) {
+  return inFlight.has(evseId)
+}
+
+// Resolve the status through the provider chain, then record, cache and publish it.
+// While a scrape of the charger is running, callers get its result instead of a new scrape.
+export function refreshChargerStatus(charger: ChargerInfo): Promise<ChargerStatusData> {
+  const running = inFlight.get(charger.id)
+  if (running) return running
+
+  const refresh = scrapeChargerStatus(charger).finally(() => inFlight.delete(charger.id))
+  inFlight.set(charger.id, refresh)
+  return refresh
+}
+
+async function scrapeChargerStatus(charger: ChargerInfo): Promise<ChargerStatusData> {
+  const evseId = charger.id
+
+  const result = await resolveStatus(charger)
+  const failed = result.source === null
+  const scraped = toStatusData(charger, {
+    status: result.status,
+    statusText: result.statusText,
+    isRealTime: !failed,
+    source: result.source,
+    confidence: result.confidence,
+    error: failed ? result.attempts.map((attempt) => `${attempt.provider}: ${attempt.error}`).join("; ") : undefined,
+  })
+
+  // One failed scrape says nothing about the charger, so its last good status stays up for a while
+  const previous = cache[evseId]
+  const keepPrevious =
+    failed && previous?.lastSuccessAt != null && Date.now() - previous.lastSuccessAt <= STALE_AFTER
+  const observed = keepPrevious ? { ...previous.observed, stale: true, error: scraped.error } : scraped
+
+  const override = await reconcileOverride(evseId, scraped.status)
+  const data = withOverride(observed, override)
+  scheduleExpiry(charger, override)
+
+  cache[evseId] = {
+    data,
+    observed,
+    timestamp: Date.now(),
+    lastSuccessAt: failed ? previous?.lastSuccessAt ?? null : Date.now(),
+  }
+
+  // History keeps what was observed, failures included; overrides are in the audit log
+  await recordObservation({
+    evseId,
+    status: scraped.status,
+    statusText: scraped.statusText,
+    source: scraped.source ?? "none",
+    timestamp: scraped.lastUpdated,
+  })
+  publishStatus(data, previous?.data)
+
+  return data
+}
+
+// Re-apply the current override (or its absence) to the last observation after it was set, cleared or expired
+export async function applyOverride(charger: ChargerInfo): Promise<ChargerStatusData> {
+  const entry = cache[charger.id]
+  const observed = entry?.observed ?? pendingStatus(charger)
+  const override = await getOverride(charger.id)
+  const data = { ...withOverride(observed, override), lastUpdated: new Date().toISOString() }
+  scheduleExpiry(charger, override)
+
+  cache[charger.id] = {
+    data,
+    observed,
+    // Does not count as a fresh observation
+    timestamp: entry?.timestamp ?? 0,
+    lastSuccessAt: entry?.lastSuccessAt ?? null,
+  }
+  publishStatus(data, entry?.data)
+
+  return data
+}
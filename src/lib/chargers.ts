@@ -0,0 +1,294 @@
+import { readJsonFile, writeJsonFile } from "@/lib/storage"
+import { singleton } from "@/lib/singleton"
+import { PROVIDER_NAMES, type ProviderConfig } from "@/lib/providers/types"
+import { DEFAULT_SITE_ID, findUnknownSites, SITE_ID_PATTERN, validateCoordinates, type Coordinates } from "@/lib/sites"
+import { parseTariff, validateTariff, type Tariff } from "@/lib/tariffs"
+
+export const DEFAULT_OPERATOR = "AUG. PRIEN Bauunternehmung (GmbH & Co. KG)"
+
+const REGISTRY_FILE = "chargers.json"
+
+// Master data for a single wallbox
+export interface ChargerInfo {
+  id: string;
+  // The site (car park) the charger belongs to
+  siteId: string;
+  location: string;
+  steckertyp: string;
+  leistung: string;
+  // Display price, e.g. "0,49 €/kWh"
+  preis: string;
+  // Structured price for cost estimates; parsed from preis when unset
+  tariff?: Tariff;
+  address: string;
+  operator: string;
+  // Status provider fallback chain; the default chain is used if unset
+  providers?: ProviderConfig[];
+  // Set for chargers that connect to our OCPP central system
+  ocpp?: OcppBinding;
+  // WGS 84 position, published to roaming partners via OCPI
+  coordinates?: Coordinates;
+  createdAt: string;
+  updatedAt: string;
+  retiredAt?: string;
+}
+
+export interface OcppBinding {
+  chargePointId: string;
+  connectorId: number;
+}
+
+// Fields an admin may set when creating or editing a charger
+export type ChargerInput = Pick<ChargerInfo, "id" | "siteId" | "location" | "steckertyp" | "leistung" | "preis" | "tariff" | "address" | "operator" | "providers" | "ocpp" | "coordinates">
+
+export class RegistryError extends Error {
+  constructor(message: string, public status: number, public details: string[] = []) {
+    super(message)
+    this.name = "RegistryError"
+  }
+}
+
+// The chargers we had before the registry existed, used to seed an empty store
+const SEED_CHARGERS: ChargerInput[] = [
+  {
+    id: "DE*MDS*E006234",
+    siteId: DEFAULT_SITE_ID,
+    location: "Ladestation 1",
+    steckertyp: "Typ 2",
+    leistung: "22 kW",
+    preis: "0,49 €/kWh",
+    address: "Prien am Chiemsee, 83209",
+    operator: DEFAULT_OPERATOR,
+    coordinates: { latitude: 47.856, longitude: 12.3453 },
+  },
+  {
+    id: "DE*MDS*E006198",
+    siteId: DEFAULT_SITE_ID,
+    location: "Ladestation 2",
+    steckertyp: "Typ 2",
+    leistung: "22 kW",
+    preis: "0,49 €/kWh",
+    address: "Prien am Chiemsee, 83209",
+    operator: DEFAULT_OPERATOR,
+    coordinates: { latitude: 47.856, longitude: 12.3453 },
+  },
+]
+
+// EVSE IDs look like "DE*MDS*E006234": country, operator, then "E" and the EVSE part
+const EVSE_ID_PATTERN = /^[A-Z]{2}\*[A-Z0-9]{3}\*E[A-Z0-9*]{1,30}$/
+
+const TEXT_FIELDS = ["location", "steckertyp", "leistung", "preis", "address", "operator"] as const
+
+const MAX_PROVIDER_TIMEOUT = 2 * 60 * 1000
+
+function validateProviders(value: unknown, errors: string[]): ProviderConfig[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push("providers must be a non-empty array")
+    return undefined
+  }
+
+  const providers: ProviderConfig[] = []
+  for (const entry of value) {
+    const name = entry?.name
+    const timeoutMs = entry?.timeoutMs
+    if (!PROVIDER_NAMES.includes(name)) {
+      errors.push(`providers[].name must be one of ${PROVIDER_NAMES.join(", ")}`)
+    } else if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs <= 0 || timeoutMs > MAX_PROVIDER_TIMEOUT)) {
+      errors.push(`providers[].timeoutMs must be an integer between 1 and ${MAX_PROVIDER_TIMEOUT}`)
+    } else {
+      providers.push(timeoutMs === undefined ? { name } : { name, timeoutMs })
+    }
+  }
+  return providers
+}
+
+function validateOcpp(value: unknown, errors: string[]): OcppBinding | undefined {
+  const binding = value as Partial<OcppBinding> | null
+  if (typeof binding?.chargePointId !== "string" || !/^[\w.*-]{1,48}$/.test(binding.chargePointId)) {
+    errors.push("ocpp.chargePointId must be 1-48 letters, digits or . * _ -")
+    return undefined
+  }
+  if (!Number.isInteger(binding.connectorId) || (binding.connectorId as number) < 1) {
+    errors.push("ocpp.connectorId must be a positive integer")
+    return undefined
+  }
+  return { chargePointId: binding.chargePointId, connectorId: binding.connectorId as number }
+}
+
+const state = singleton("chargerRegistry", () => ({
+  chargers: null as Record<string, ChargerInfo> | null,
+  // Serialises writes so concurrent admin requests cannot overwrite each other
+  queue: Promise.resolve() as Promise<unknown>,
+}))
+
+async function load(): Promise<Record<string, ChargerInfo>> {
+  if (!state.chargers) {
+    const stored = await readJsonFile<Record<string, ChargerInfo> | null>(REGISTRY_FILE, null)
+    if (stored) {
+      // Registries from before sites existed
+      for (const charger of Object.values(stored)) {
+        charger.siteId ??= DEFAULT_SITE_ID
+      }
+      state.chargers = stored
+    } else {
+      const now = new Date().toISOString()
+      state.chargers = Object.fromEntries(
+        SEED_CHARGERS.map((charger) => [charger.id, { ...charger, createdAt: now, updatedAt: now }]),
+      )
+    }
+  }
+  return state.chargers
+}
+
+function mutate<T>(change: (chargers: Record<string, ChargerInfo>) => T): Promise<T> {
+  const run = state.queue.then(async () => {
+    // Changed on a copy that only replaces the one in memory once it is on disk
+    const chargers = structuredClone(await load())
+    const result = change(chargers)
+    await writeJsonFile(REGISTRY_FILE, chargers)
+    state.chargers = chargers
+    return result
+  })
+  state.queue = run.catch(() => undefined)
+  return run
+}
+
+// Validate a create (partial = false) or edit (partial = true) payload
+export function validateChargerInput(input: unknown, partial: boolean): Partial<ChargerInput> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new RegistryError("Request body must be a JSON object", 400)
+  }
+
+  const data = input as Record<string, unknown>
+  const errors: string[] = []
+  const result: Partial<ChargerInput> = {}
+
+  if (!partial) {
+    if (typeof data.id !== "string" || !EVSE_ID_PATTERN.test(data.id)) {
+      errors.push("id must be an EVSE ID such as DE*MDS*E006234")
+    } else {
+      result.id = data.id
+    }
+  } else if (data.id !== undefined) {
+    errors.push("id cannot be changed")
+  }
+
+  if (data.siteId !== undefined) {
+    if (typeof data.siteId !== "string" || !SITE_ID_PATTERN.test(data.siteId)) {
+      errors.push("siteId must be the id of a site")
+    } else {
+      result.siteId = data.siteId
+    }
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = data[field]
+    if (value === undefined && (partial || field === "operator")) {
+      continue
+    }
+    if (typeof value !== "string" || !value.trim() || value.length > 200) {
+      errors.push(`${field} must be a non-empty string of at most 200 characters`)
+      continue
+    }
+    result[field] = value.trim()
+  }
+
+  if (data.providers !== undefined) {
+    result.providers = validateProviders(data.providers, errors)
+  }
+
+  if (data.ocpp !== undefined) {
+    result.ocpp = validateOcpp(data.ocpp, errors)
+  }
+
+  if (data.coordinates !== undefined) {
+    result.coordinates = validateCoordinates(data.coordinates, errors)
+  }
+
+  if (data.tariff !== undefined) {
+    result.tariff = validateTariff(data.tariff, errors)
+  }
+
+  if (errors.length > 0) {
+    throw new RegistryError("Invalid charger data", 400, errors)
+  }
+
+  return result
+}
+
+// siteIds restricts the list to chargers at those sites
+export async function listChargers(options: { includeRetired?: boolean; siteIds?: string[] } = {}): Promise<ChargerInfo[]> {
+  return Object.values(await load()).filter(
+    (charger) =>
+      (options.includeRetired || !charger.retiredAt) && (!options.siteIds || options.siteIds.includes(charger.siteId)),
+  )
+}
+
+// Returns the charger even if it has been retired; callers decide how to treat that
+export async function getCharger(evseId: string): Promise<ChargerInfo | undefined> {
+  return (await load())[evseId]
+}
+
+export async function getActiveCharger(evseId: string): Promise<ChargerInfo | undefined> {
+  const charger = await getCharger(evseId)
+  return charger && !charger.retiredAt ? charger : undefined
+}
+
+// The charger's tariff, or null if neither one is set nor preis can be read
+export function getTariff(charger: ChargerInfo): Tariff | null {
+  return charger.tariff ?? parseTariff(charger.preis)
+}
+
+async function checkSite(siteId: string | undefined) {
+  if (siteId && (await findUnknownSites([siteId])).length > 0) {
+    throw new RegistryError("Invalid charger data", 400, [`siteId ${siteId} does not exist`])
+  }
+}
+
+export async function createCharger(input: unknown): Promise<ChargerInfo> {
+  const data = validateChargerInput(input, false) as ChargerInput
+  await checkSite(data.siteId)
+  return mutate((chargers) => {
+    if (chargers[data.id]) {
+      throw new RegistryError(`Charger ${data.id} already exists`, 409)
+    }
+    const now = new Date().toISOString()
+    const charger: ChargerInfo = {
+      ...data,
+      siteId: data.siteId || DEFAULT_SITE_ID,
+      operator: data.operator || DEFAULT_OPERATOR,
+      createdAt: now,
+      updatedAt: now,
+    }
+    chargers[charger.id] = charger
+    return charger
+  })
+}
+
+export async function updateCharger(evseId: string, input: unknown): Promise<ChargerInfo> {
+  const data = validateChargerInput(input, true)
+  await checkSite(data.siteId)
+  return mutate((chargers) => {
+    const existing = chargers[evseId]
+    if (!existing) {
+      throw new RegistryError(`No charger found with id ${evseId}`, 404)
+    }
+    const charger = { ...existing, ...data, updatedAt: new Date().toISOString() }
+    chargers[evseId] = charger
+    return charger
+  })
+}
+
+// Retiring keeps the record so history stays attributable, but hides it everywhere else
+export function retireCharger(evseId: string): Promise<ChargerInfo> {
+  return mutate((chargers) => {
+    const existing = chargers[evseId]
+    if (!existing) {
+      throw new RegistryError(`No charger found with id ${evseId}`, 404)
+    }
+    const now = new Date().toISOString()
+    const charger = { ...existing, retiredAt: existing.retiredAt || now, updatedAt: now }
+    chargers[evseId] = charger
+    return charger
+  })
+}
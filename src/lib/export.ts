@@ -0,0 +1,166 @@
+import { ANALYTICS_TIME_ZONE } from "@/lib/analytics"
+import { getAuditEntries, type AuditEntry } from "@/lib/audit"
+import { getTariff, type ChargerInfo } from "@/lib/chargers"
+import { getObservations, type StatusObservation } from "@/lib/history"
+import { formatDateTime, formatNumber, translate, type Locale, type MessageKey } from "@/lib/i18n"
+import { listSessions, type ChargingSession } from "@/lib/sessions"
+import { statusLabel } from "@/lib/status"
+
+export const EXPORT_DATASETS = ["observations", "sessions", "overrides"] as const
+
+export type ExportDataset = (typeof EXPORT_DATASETS)[number]
+
+export const EXPORT_FORMATS = ["csv", "json"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export interface ExportQuery {
+  dataset: ExportDataset;
+  // The chargers to include, already limited to what the user may see
+  chargers: ChargerInfo[];
+  from: Date;
+  to: Date;
+}
+
+// Every record carries the charger's location, so a spreadsheet needs no lookup
+type Located<T> = T & { location: string }
+
+export type ExportData =
+  | { dataset: "observations"; items: Located<StatusObservation>[] }
+  | { dataset: "sessions"; items: Located<ChargingSession>[] }
+  | { dataset: "overrides"; items: Located<AuditEntry>[] }
+
+interface Column<T> {
+  header: MessageKey;
+  value: (row: T) => string;
+}
+
+// Excel with German settings opens this as is: semicolons between fields and a
+// byte order mark so that umlauts and € survive
+const CSV_SEPARATOR = ";"
+const CSV_BOM = "\uFEFF"
+
+export function isExportDataset(value: unknown): value is ExportDataset {
+  return EXPORT_DATASETS.includes(value as ExportDataset)
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat)
+}
+
+// Records of one dataset for the chosen chargers and window, oldest first
+export async function readExport(query: ExportQuery): Promise<ExportData> {
+  const evseIds = query.chargers.map((charger) => charger.id)
+  const locations = new Map(query.chargers.map((charger) => [charger.id, charger.location]))
+  const locate = <T extends { evseId: string }>(item: T): Located<T> => ({
+    ...item,
+    location: locations.get(item.evseId) ?? item.evseId,
+  })
+  const range = { evseIds, from: query.from, to: query.to }
+
+  switch (query.dataset) {
+    case "observations":
+      return { dataset: "observations", items: (await getObservations(range)).map(locate) }
+    case "sessions":
+      return { dataset: "sessions", items: (await listSessions(range)).reverse().map(locate) }
+    case "overrides":
+      return { dataset: "overrides", items: (await getAuditEntries(range)).map(locate) }
+  }
+}
+
+// "19.10.2026 14:05:00" in the chargers' time zone, which German Excel reads as a date
+function csvDate(value: string) {
+  return formatDateTime("de", value, {
+    timeZone: ANALYTICS_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).replace(", ", " ")
+}
+
+// Decimal comma and no thousands separator, like "1,5"
+function csvNumber(value: number) {
+  return formatNumber("de", value, { maximumFractionDigits: 2, useGrouping: false })
+}
+
+// Same as the dashboard shows prices, e.g. "0,49 €"
+function csvMoney(value: number, currency: string) {
+  return formatNumber("de", value, { style: "currency", currency }).replace(/\u00a0/g, " ")
+}
+
+// Quoted where needed; free text such as a reason must not start a spreadsheet formula
+function csvField(value: string) {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[;"\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+function toRows<T>(items: T[], columns: Column<T>[], locale: Locale) {
+  return [
+    columns.map((column) => translate(locale, column.header)),
+    ...items.map((item) => columns.map((column) => column.value(item))),
+  ]
+}
+
+// Headers and status names follow the locale; numbers and dates are always German
+export function toCsv(data: ExportData, chargers: ChargerInfo[], locale: Locale): string {
+  const yesNo = (value: boolean) => translate(locale, value ? "common.yes" : "common.no")
+  let rows: string[][]
+
+  switch (data.dataset) {
+    case "observations":
+      rows = toRows<Located<StatusObservation>>(data.items, [
+        { header: "export.column.timestamp", value: (item) => csvDate(item.timestamp) },
+        { header: "export.column.evseId", value: (item) => item.evseId },
+        { header: "export.column.location", value: (item) => item.location },
+        { header: "export.column.status", value: (item) => statusLabel(item.status, locale) },
+        { header: "export.column.statusText", value: (item) => item.statusText },
+        { header: "export.column.source", value: (item) => item.source },
+      ], locale)
+      break
+    case "sessions": {
+      const tariffs = new Map(chargers.map((charger) => [charger.id, getTariff(charger)]))
+      rows = toRows<Located<ChargingSession>>(data.items, [
+        { header: "export.column.evseId", value: (item) => item.evseId },
+        { header: "export.column.location", value: (item) => item.location },
+        { header: "export.column.start", value: (item) => csvDate(item.start) },
+        { header: "export.column.end", value: (item) => (item.end ? csvDate(item.end) : "") },
+        { header: "export.column.durationMinutes", value: (item) => String(item.durationMinutes) },
+        { header: "export.column.durationHours", value: (item) => csvNumber(item.durationMinutes / 60) },
+        { header: "export.column.gapMinutes", value: (item) => String(item.gapMinutes) },
+        { header: "export.column.estimated", value: (item) => yesNo(item.estimated) },
+        {
+          header: "export.column.energyPrice",
+          value: (item) => {
+            const tariff = tariffs.get(item.evseId)
+            return tariff ? csvMoney(tariff.energyPrice, tariff.currency) : ""
+          },
+        },
+      ], locale)
+      break
+    }
+    case "overrides":
+      rows = toRows<Located<AuditEntry>>(data.items, [
+        { header: "export.column.timestamp", value: (item) => csvDate(item.timestamp) },
+        { header: "export.column.evseId", value: (item) => item.evseId },
+        { header: "export.column.location", value: (item) => item.location },
+        { header: "export.column.previousStatus", value: (item) => statusLabel(item.previousStatus, locale) },
+        { header: "export.column.newStatus", value: (item) => statusLabel(item.newStatus, locale) },
+        { header: "export.column.name", value: (item) => item.name },
+        { header: "export.column.username", value: (item) => item.username },
+        { header: "export.column.reason", value: (item) => item.reason },
+      ], locale)
+      break
+  }
+
+  return CSV_BOM + rows.map((row) => row.map(csvField).join(CSV_SEPARATOR)).join("\r\n") + "\r\n"
+}
+
+const fileDate = new Intl.DateTimeFormat("en-CA", { timeZone: ANALYTICS_TIME_ZONE })
+
+// e.g. sessions-2026-10-01-2026-10-31.csv for October, whose window ends at midnight on 1 November
+export function exportFileName(dataset: ExportDataset, format: ExportFormat, from: Date, to: Date) {
+  return `${dataset}-${fileDate.format(from)}-${fileDate.format(new Date(to.getTime() - 1))}.${format}`
+}
@@ -0,0 +1,169 @@
+import { load } from "cheerio"
+import { getCachedStatus, STALE_AFTER } from "@/lib/charger-status"
+import { listChargers } from "@/lib/chargers"
+import { getBrowserPoolStats, type BrowserPoolStats } from "@/lib/providers/browser-pool"
+import { BROWSER_HEADERS, chargerPageUrl, STATUS_BADGE_SELECTOR } from "@/lib/providers/chrg-direct"
+import { isJavaScriptShell } from "@/lib/providers/parsers"
+import { singleton } from "@/lib/singleton"
+
+// Probes of chrg.direct are shared for this long, so frequent readiness checks do not add load
+const PROBE_INTERVAL = 60 * 1000
+const PROBE_TIMEOUT = 10 * 1000
+
+export type HealthStatus = "ok" | "degraded"
+
+export type HealthProblemCode = "upstream-unreachable" | "upstream-error" | "selector-missing" | "browser-failed" | "chargers-stale"
+
+export interface HealthProblem {
+  code: HealthProblemCode;
+  // For operators; the dashboard shows its own translation of the code
+  message: string;
+}
+
+export interface UpstreamProbe {
+  url: string;
+  checkedAt: string;
+  // Null if no response arrived at all
+  httpStatus: number | null;
+  latencyMs: number | null;
+  // Whether the static page has the status badge; null if it could not be checked,
+  // e.g. because chrg.direct served the page that needs JavaScript
+  selectorFound: boolean | null;
+  error?: string;
+}
+
+export interface ChargerHealth {
+  evseId: string;
+  lastSuccessAt: string | null;
+  // Provider of the latest status, null if the latest scrape failed
+  source: string | null;
+  stale: boolean;
+}
+
+export interface ReadinessReport {
+  status: HealthStatus;
+  checkedAt: string;
+  problems: HealthProblem[];
+  browser: Pick<BrowserPoolStats, "running" | "openPages" | "maxPages" | "crashes" | "launchError" | "lastError">;
+  upstream: UpstreamProbe | null;
+  staleAfterMinutes: number;
+  chargers: ChargerHealth[];
+}
+
+// What visitors without a login see: whether something is wrong, not where
+export interface ReadinessSummary {
+  status: HealthStatus;
+  checkedAt: string;
+  problems: Pick<HealthProblem, "code">[];
+}
+
+const state = singleton("health", () => ({
+  probe: null as UpstreamProbe | null,
+  probing: null as Promise<UpstreamProbe> | null,
+}))
+
+// Fetch one charger page the way the cheerio provider does and look for the badge
+async function probeUpstream(evseId: string): Promise<UpstreamProbe> {
+  const url = chargerPageUrl(evseId)
+  const startedAt = Date.now()
+  try {
+    const response = await fetch(url, {
+      cache: "no-store",
+      headers: BROWSER_HEADERS,
+      signal: AbortSignal.timeout(PROBE_TIMEOUT),
+    })
+    const latencyMs = Date.now() - startedAt
+    const html = await response.text()
+    const selectorFound =
+      !response.ok || isJavaScriptShell(html) ? null : load(html)(STATUS_BADGE_SELECTOR).length > 0
+    return { url, checkedAt: new Date().toISOString(), httpStatus: response.status, latencyMs, selectorFound }
+  } catch (error: unknown) {
+    return {
+      url,
+      checkedAt: new Date().toISOString(),
+      httpStatus: null,
+      latencyMs: null,
+      selectorFound: null,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+// The latest probe, refreshed when it is older than PROBE_INTERVAL; concurrent callers share one request
+function getUpstreamProbe(evseId: string): Promise<UpstreamProbe> {
+  if (state.probe && Date.now() - new Date(state.probe.checkedAt).getTime() < PROBE_INTERVAL) {
+    return Promise.resolve(state.probe)
+  }
+  if (!state.probing) {
+    state.probing = probeUpstream(evseId)
+      .then((probe) => (state.probe = probe))
+      .finally(() => {
+        state.probing = null
+      })
+  }
+  return state.probing
+}
+
+// Everything that explains why statuses might be missing or wrong, for the chargers at the given sites (undefined: all)
+export async function checkReadiness(sites?: string[]): Promise<ReadinessReport> {
+  const now = Date.now()
+  const chargers = await listChargers()
+  const pool = getBrowserPoolStats()
+  const upstream = chargers.length > 0 ? await getUpstreamProbe(chargers[0].id) : null
+
+  const scoped = sites ? chargers.filter((charger) => sites.includes(charger.siteId)) : chargers
+  const chargerHealth = scoped.map((charger): ChargerHealth => {
+    const entry = getCachedStatus(charger.id)
+    return {
+      evseId: charger.id,
+      lastSuccessAt: entry?.lastSuccessAt ? new Date(entry.lastSuccessAt).toISOString() : null,
+      source: entry && !entry.observed.stale ? entry.observed.source : null,
+      // Not stale before the first scrape has even finished
+      stale: Boolean(entry) && (!entry!.lastSuccessAt || now - entry!.lastSuccessAt > STALE_AFTER),
+    }
+  })
+
+  const problems: HealthProblem[] = []
+  if (upstream && upstream.httpStatus === null) {
+    problems.push({ code: "upstream-unreachable", message: `chrg.direct is unreachable: ${upstream.error}` })
+  } else if (upstream && (upstream.httpStatus ?? 0) >= 400) {
+    problems.push({ code: "upstream-error", message: `chrg.direct answered with HTTP ${upstream.httpStatus}` })
+  }
+  if (upstream?.selectorFound === false) {
+    problems.push({
+      code: "selector-missing",
+      message: `No ${STATUS_BADGE_SELECTOR} element on the charger page; the markup may have changed`,
+    })
+  }
+  if (pool.launchError) {
+    problems.push({ code: "browser-failed", message: `Chromium failed to launch: ${pool.launchError}` })
+  }
+  const stale = chargerHealth.filter((charger) => charger.stale)
+  if (stale.length > 0) {
+    problems.push({
+      code: "chargers-stale",
+      message: `No successful scrape for ${stale.map((charger) => charger.evseId).join(", ")}`,
+    })
+  }
+
+  return {
+    status: problems.length > 0 ? "degraded" : "ok",
+    checkedAt: new Date(now).toISOString(),
+    problems,
+    browser: {
+      running: pool.running,
+      openPages: pool.openPages,
+      maxPages: pool.maxPages,
+      crashes: pool.crashes,
+      launchError: pool.launchError,
+      lastError: pool.lastError,
+    },
+    upstream,
+    staleAfterMinutes: Math.round(STALE_AFTER / 60000),
+    chargers: chargerHealth,
+  }
+}
+
+export function summarizeReadiness(report: ReadinessReport): ReadinessSummary {
+  return { status: report.status, checkedAt: report.checkedAt, problems: report.problems.map(({ code }) => ({ code })) }
+}
@@ -0,0 +1,143 @@
+import { singleton } from "@/lib/singleton"
+import type { ChargerStatus } from "@/lib/status"
+import { appendJsonLine, dataFileModifiedAt, listDataFiles, removeDataFile, streamJsonLines } from "@/lib/storage"
+
+// One file per month (UTC): queries skip the months outside their range, and months past
+// the retention window are deleted whole
+const HISTORY_FILE_PATTERN = /^history-(\d{4})-(\d{2})\.jsonl$/
+// Where observations went before the history was split by month; no longer written to
+const LEGACY_HISTORY_FILE = "history.jsonl"
+
+// How long observations are kept; a month goes once its last day is this old
+export const HISTORY_RETENTION_DAYS = Number(process.env.HISTORY_RETENTION_DAYS) || 365
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const DEFAULT_PAGE_SIZE = 100
+export const MAX_PAGE_SIZE = 1000
+
+// One status reading of a charger, as seen by one of our status sources
+export interface StatusObservation {
+  evseId: string;
+  status: ChargerStatus;
+  statusText: string;
+  source: string;
+  timestamp: string;
+}
+
+export interface HistoryQuery {
+  evseId?: string;
+  // Only these chargers, e.g. those of one site
+  evseIds?: string[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface HistoryPage {
+  items: StatusObservation[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+const state = singleton("history", () => ({
+  // Day (YYYY-MM-DD) of the last pruning, so it runs at most once a day
+  prunedOn: null as string | null,
+}))
+
+function historyFile(timestamp: string) {
+  return `history-${timestamp.slice(0, 7)}.jsonl`
+}
+
+// Start and end of the month a history file covers, null for other files
+function monthOf(fileName: string): { start: number; end: number } | null {
+  const match = HISTORY_FILE_PATTERN.exec(fileName)
+  if (!match) return null
+  const year = Number(match[1])
+  const month = Number(match[2]) - 1
+  return { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 1) }
+}
+
+// The files that may hold observations between fromTime and toTime, oldest first
+async function historyFiles(fromTime: number, toTime: number): Promise<string[]> {
+  const months = (await listDataFiles())
+    .map((fileName) => ({ fileName, month: monthOf(fileName) }))
+    .filter(({ month }) => month && month.end > fromTime && month.start <= toTime)
+    .sort((a, b) => a.month!.start - b.month!.start)
+    .map(({ fileName }) => fileName)
+
+  // Everything in the old single file predates the monthly ones and ends with its last write
+  const legacyModifiedAt = await dataFileModifiedAt(LEGACY_HISTORY_FILE)
+  return legacyModifiedAt && legacyModifiedAt.getTime() >= fromTime ? [LEGACY_HISTORY_FILE, ...months] : months
+}
+
+// Delete the months, and the old single file, that lie entirely before the retention window
+async function pruneHistory(now = Date.now()) {
+  const today = new Date(now).toISOString().slice(0, 10)
+  if (state.prunedOn === today) return
+  state.prunedOn = today
+
+  const cutoff = now - HISTORY_RETENTION_DAYS * DAY
+  try {
+    const expired = (await listDataFiles()).filter((fileName) => (monthOf(fileName)?.end ?? Infinity) <= cutoff)
+    const legacyModifiedAt = await dataFileModifiedAt(LEGACY_HISTORY_FILE)
+    if (legacyModifiedAt && legacyModifiedAt.getTime() < cutoff) expired.push(LEGACY_HISTORY_FILE)
+
+    for (const fileName of expired) {
+      await removeDataFile(fileName)
+      console.log(`Deleted ${fileName}, older than ${HISTORY_RETENTION_DAYS} days`)
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error pruning status history: ${errorMessage}`)
+  }
+}
+
+export async function recordObservation(observation: StatusObservation) {
+  try {
+    await appendJsonLine(historyFile(observation.timestamp), observation)
+  } catch (error: unknown) {
+    // Losing a history entry must never break the status response itself
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error recording status observation: ${errorMessage}`)
+  }
+  await pruneHistory()
+}
+
+// All observations matching the filter, oldest first. Files are read line by line and
+// only the months in the range are opened, so a short query stays cheap however long the history.
+export async function getObservations(query: Omit<HistoryQuery, "limit" | "offset"> = {}): Promise<StatusObservation[]> {
+  const fromTime = query.from?.getTime() ?? -Infinity
+  const toTime = query.to?.getTime() ?? Infinity
+
+  const observations: StatusObservation[] = []
+  for (const fileName of await historyFiles(fromTime, toTime)) {
+    for await (const observation of streamJsonLines<StatusObservation>(fileName)) {
+      if (query.evseId && observation.evseId !== query.evseId) continue
+      if (query.evseIds && !query.evseIds.includes(observation.evseId)) continue
+      const time = new Date(observation.timestamp).getTime()
+      if (time >= fromTime && time <= toTime) observations.push(observation)
+    }
+  }
+  return observations
+}
+
+// One page of matching observations, newest first
+export async function queryHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(query.offset ?? 0, 0)
+
+  const matches = (await getObservations(query)).reverse()
+  const items = matches.slice(offset, offset + limit)
+
+  return {
+    items,
+    total: matches.length,
+    limit,
+    offset,
+    nextOffset: offset + items.length < matches.length ? offset + items.length : null,
+  }
+}
@@ -0,0 +1,217 @@
+// German is the default language and the reference for every other catalog
+export const de = {
+  "locale.label": "Sprache",
+
+  "status.available": "Verfügbar",
+  "status.preparing": "Wird vorbereitet",
+  "status.charging": "Besetzt",
+  "status.finishing": "Wird beendet",
+  "status.reserved": "Reserviert",
+  "status.maintenance": "Wartung",
+  "status.error": "Fehler",
+  "status.offline": "Offline",
+  "status.unknown": "Unbekannt",
+
+  "role.viewer": "Betrachter",
+  "role.employee": "Mitarbeiter",
+  "role.admin": "Facility-Admin",
+
+  "source.puppeteer": "chrg.direct (Browser)",
+  "source.cheerio": "chrg.direct (HTML)",
+  "source.regex": "chrg.direct (Text)",
+  "source.ocpp": "OCPP",
+  "source.manual": "Manuell gesetzt",
+
+  "common.yes": "Ja",
+  "common.no": "Nein",
+  "common.cancel": "Abbrechen",
+  "common.refresh": "Aktualisieren",
+  "common.refreshing": "Aktualisiere...",
+  "common.loadMore": "Mehr laden",
+  "common.days": "{count} Tage",
+
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+
+  "sessions.recent": "Letzte Ladevorgänge",
+  "sessions.none": "Keine Ladevorgänge in den letzten 7 Tagen",
+  "sessions.running": "seit {start}, läuft noch",
+  "sessions.approximate": "ca. {duration}",
+  "sessions.estimatedHint": "Ungefähr: Am Anfang oder Ende fehlen Beobachtungen",
+
+  "nav.dashboard": "Dashboard",
+  "nav.analytics": "Auslastung",
+  "nav.audit": "Protokoll",
+  "nav.login": "Anmelden",
+  "nav.logout": "Abmelden",
+
+  "stream.live": "Live",
+  "stream.connecting": "Verbinde...",
+  "stream.disconnected": "Getrennt",
+
+  "health.degraded": "Eingeschränkter Betrieb: Statusangaben können veraltet oder unbekannt sein.",
+  "health.problem.upstream-unreachable": "chrg.direct ist nicht erreichbar.",
+  "health.problem.upstream-error": "chrg.direct antwortet mit HTTP {status}.",
+  "health.problem.upstream-error.general": "chrg.direct antwortet mit einem Fehler.",
+  "health.problem.selector-missing": "Auf der Seite von chrg.direct fehlt die Statusanzeige; vermutlich wurde das Layout geändert.",
+  "health.problem.browser-failed": "Der Browser für die Abfrage konnte nicht gestartet werden.",
+  "health.problem.chargers-stale": "Für {count} Ladestationen gab es seit über {minutes} Minuten keine erfolgreiche Abfrage.",
+  "health.problem.chargers-stale.general": "Für einige Ladestationen gab es länger keine erfolgreiche Abfrage.",
+
+  "site.label": "Standort",
+  "site.all": "Alle Standorte",
+
+  "dashboard.title": "Ladestation Dashboard",
+  "dashboard.subtitle": "Übersicht der Ladestationen auf dem Firmenparkplatz",
+  "dashboard.subtitleAllSites": "Übersicht der Ladestationen aller Standorte",
+  "dashboard.subtitleSite": "Ladestationen am Standort {address}",
+  "dashboard.signedInAs": "Angemeldet als {name} ({role})",
+  "dashboard.siteForbidden": "Für diesen Standort fehlt dir die Berechtigung.",
+  "dashboard.siteNotFound": "Diesen Standort gibt es nicht.",
+  "dashboard.reservedFor": "Reserviert für {name} bis {time}",
+  "dashboard.status": "Status",
+  "dashboard.details": "Details",
+  "dashboard.copyright": "© {year} AUG. PRIEN Bauunternehmung (GmbH & Co. KG). Alle Rechte vorbehalten.",
+
+  "charger.fallbackName": "Ladestation {number}",
+  "charger.plugType": "Steckertyp",
+  "charger.power": "Leistung",
+  "charger.price": "Preis",
+  "charger.operator": "Betreiber",
+  "charger.lastUpdated": "Zuletzt aktualisiert",
+  "charger.stale": "Stand {time}: die letzte Abfrage ist fehlgeschlagen",
+
+  "override.setBy": "Manuell gesetzt von {name}: „{reason}“",
+  "override.setByAt": "Manuell gesetzt von {name} am {time}: „{reason}“",
+  "override.untilChange": "Bis zur nächsten beobachteten Änderung, spätestens {time}",
+  "override.until": "Gilt bis {time}",
+  "override.observed": "Beobachtet: {status}",
+  "override.clear": "Aufheben",
+
+  "statusDialog.title": "Status aktualisieren",
+  "statusDialog.description": "Manuell den Status für {location} aktualisieren",
+  "statusDialog.reason": "Begründung",
+  "statusDialog.reasonPlaceholder": "z. B. Kabel beschädigt, vom Hausmeister gemeldet",
+  "statusDialog.expiry": "Gültig",
+  "statusDialog.untilChange": "Bis zur nächsten beobachteten Änderung",
+  "statusDialog.oneHour": "Für 1 Stunde",
+  "statusDialog.hours": "Für {count} Stunden",
+  "statusDialog.forbidden": "Dafür fehlt dir die Berechtigung. Bitte melde dich an.",
+  "statusDialog.unusualTransition": "Ungewöhnlicher Wechsel: Ladestationen gehen normalerweise nicht von „{from}“ zu „{to}“. Der Status wird trotzdem gesetzt.",
+  "statusDialog.failed": "Der Status konnte nicht aktualisiert werden.",
+  "statusDialog.submit": "Aktualisieren",
+  "statusDialog.submitting": "Aktualisiere...",
+
+  "waitlist.title": "Warteschlange",
+  "waitlist.empty": "Niemand wartet gerade",
+  "waitlist.waitingOne": "1 Person wartet: {names}",
+  "waitlist.waitingMany": "{count} Personen warten: {names}",
+  "waitlist.claim": "{charger} ist frei und für dich reserviert – noch",
+  "waitlist.accept": "Ich komme",
+  "waitlist.skip": "Überspringen",
+  "waitlist.position": "Du bist auf Platz {position}. Sobald eine Ladestation frei wird, melden wir uns hier.",
+  "waitlist.leave": "Verlassen",
+  "waitlist.namePlaceholder": "Dein Name",
+  "waitlist.join": "Anstellen",
+
+  "calculator.title": "Kostenrechner",
+  "calculator.description": "Gib ein, wie viele kWh du laden möchtest; jede Ladestation zeigt dann die geschätzten Kosten.",
+  "calculator.energy": "Energie in kWh",
+  "calculator.estimate": "Geschätzte Kosten",
+  "calculator.breakdown": "Energie {energy}, Zeit {time}, Blockiergebühr {blocking} bei etwa {minutes} min Ladedauer",
+  "calculator.noTariff": "Kein Tarif hinterlegt",
+  "calculator.notValid": "Tarif derzeit nicht gültig",
+
+  "details.fallbackTitle": "Ladestation",
+  "details.openChrgDirect": "Auf chrg.direct öffnen",
+  "details.notFound": "Diese Ladestation gibt es nicht.",
+  "details.loadFailed": "Die Ladestation konnte nicht geladen werden.",
+  "details.currentStatus": "Aktueller Status",
+  "details.live": "Wird live aktualisiert",
+  "details.connecting": "Live-Verbindung wird aufgebaut...",
+  "details.source": "Quelle",
+  "details.noSource": "Keine",
+  "details.confidence": "Verlässlichkeit",
+  "details.realTime": "Echtzeit",
+  "details.pending": "Noch keine Abfrage",
+  "details.equipment": "Ausstattung",
+  "details.masterData": "Stammdaten",
+  "details.timeline": "Verlauf",
+  "details.timelineToday": "Beobachteter Status von heute",
+  "details.timelineDays": "Beobachteter Status der letzten {count} Tage",
+  "details.today": "Heute",
+  "details.overrides": "Manuelle Änderungen",
+  "details.overridesRecent": "Die letzten {count}, neueste zuerst",
+  "details.overridesHidden": "Manuelle Änderungen sind nur für angemeldete Mitarbeiter sichtbar.",
+  "details.noOverrides": "Für diese Ladestation wurde der Status noch nie manuell geändert.",
+
+  "audit.title": "Änderungsprotokoll",
+  "audit.subtitle": "Manuelle Statusänderungen mit Begründung",
+  "audit.entries": "Einträge",
+  "audit.newestFirst": "Neueste zuerst",
+  "audit.allChargers": "Alle Ladestationen",
+  "audit.userPlaceholder": "Benutzername",
+  "audit.filter": "Filtern",
+  "audit.forbidden": "Das Protokoll ist nur für angemeldete Mitarbeiter sichtbar.",
+  "audit.empty": "Keine Einträge gefunden.",
+  "audit.time": "Zeitpunkt",
+  "audit.charger": "Ladestation",
+  "audit.user": "Benutzer",
+  "audit.change": "Änderung",
+  "audit.reason": "Begründung",
+
+  "analytics.title": "Auslastung",
+  "analytics.subtitle": "Belegung der Ladestationen nach Wochentag und Uhrzeit",
+  "analytics.observations": "{count} Messungen",
+  "analytics.noData": "{slot}: keine Daten",
+  "analytics.occupancy": "{slot}: {occupancy} % belegt ({count} Messungen)",
+
+  "export.title": "Export",
+  "export.description": "Messungen, Ladevorgänge und manuelle Statusänderungen als Tabelle herunterladen",
+  "export.from": "Von",
+  "export.to": "Bis",
+  "export.chargers": "Ladestationen",
+  "export.dataset": "Daten",
+  "export.dataset.observations": "Statusmessungen",
+  "export.dataset.sessions": "Ladevorgänge",
+  "export.dataset.overrides": "Manuelle Statusänderungen",
+  "export.format": "Format",
+  "export.format.csv": "CSV (Excel)",
+  "export.format.json": "JSON",
+  "export.download": "Herunterladen",
+  "export.invalidRange": "Das Enddatum darf nicht vor dem Anfangsdatum liegen",
+  "export.noChargers": "Mindestens eine Ladestation auswählen",
+  "export.column.timestamp": "Zeitpunkt",
+  "export.column.evseId": "EVSE-ID",
+  "export.column.location": "Ladestation",
+  "export.column.status": "Status",
+  "export.column.statusText": "Statustext",
+  "export.column.source": "Quelle",
+  "export.column.start": "Beginn",
+  "export.column.end": "Ende",
+  "export.column.durationMinutes": "Dauer (min)",
+  "export.column.durationHours": "Dauer (h)",
+  "export.column.gapMinutes": "Ohne Messung (min)",
+  "export.column.estimated": "Geschätzt",
+  "export.column.energyPrice": "Preis pro kWh",
+  "export.column.previousStatus": "Vorheriger Status",
+  "export.column.newStatus": "Neuer Status",
+  "export.column.name": "Name",
+  "export.column.username": "Benutzer",
+  "export.column.reason": "Begründung",
+
+  "login.title": "Anmelden",
+  "login.description": "Mitarbeiter melden sich an, um den Status von Ladestationen zu ändern",
+  "login.username": "Benutzername",
+  "login.password": "Passwort",
+  "login.submit": "Anmelden",
+  "login.submitting": "Anmelden...",
+  "login.invalid": "Benutzername oder Passwort falsch",
+  "login.oidc": "Mit Firmenkonto anmelden",
+  "login.back": "Zurück zum Dashboard",
+  "login.error.invalid_state": "Die Anmeldung ist abgelaufen, bitte erneut versuchen.",
+  "login.error.oidc_failed": "Die Anmeldung beim Firmenkonto ist fehlgeschlagen.",
+  "login.error.oidc_disabled": "Die Anmeldung mit Firmenkonto ist nicht eingerichtet.",
+  "login.error.other": "Anmeldung fehlgeschlagen ({reason})",
+}
@@ -0,0 +1,218 @@
+import type { Messages } from "@/lib/i18n"
+
+export const en: Messages = {
+  "locale.label": "Language",
+
+  "status.available": "Available",
+  "status.preparing": "Preparing",
+  "status.charging": "Occupied",
+  "status.finishing": "Finishing",
+  "status.reserved": "Reserved",
+  "status.maintenance": "Maintenance",
+  "status.error": "Error",
+  "status.offline": "Offline",
+  "status.unknown": "Unknown",
+
+  "role.viewer": "Viewer",
+  "role.employee": "Employee",
+  "role.admin": "Facility admin",
+
+  "source.puppeteer": "chrg.direct (browser)",
+  "source.cheerio": "chrg.direct (HTML)",
+  "source.regex": "chrg.direct (text)",
+  "source.ocpp": "OCPP",
+  "source.manual": "Set manually",
+
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.cancel": "Cancel",
+  "common.refresh": "Refresh",
+  "common.refreshing": "Refreshing...",
+  "common.loadMore": "Load more",
+  "common.days": "{count} days",
+
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+
+  "sessions.recent": "Recent charging sessions",
+  "sessions.none": "No charging sessions in the last 7 days",
+  "sessions.running": "since {start}, still running",
+  "sessions.approximate": "approx. {duration}",
+  "sessions.estimatedHint": "Approximate: observations are missing at the start or end",
+
+  "nav.dashboard": "Dashboard",
+  "nav.analytics": "Utilisation",
+  "nav.audit": "Audit log",
+  "nav.login": "Sign in",
+  "nav.logout": "Sign out",
+
+  "stream.live": "Live",
+  "stream.connecting": "Connecting...",
+  "stream.disconnected": "Disconnected",
+
+  "health.degraded": "Degraded service: statuses may be outdated or unknown.",
+  "health.problem.upstream-unreachable": "chrg.direct cannot be reached.",
+  "health.problem.upstream-error": "chrg.direct answers with HTTP {status}.",
+  "health.problem.upstream-error.general": "chrg.direct answers with an error.",
+  "health.problem.selector-missing": "The chrg.direct page no longer has the status badge; its layout has probably changed.",
+  "health.problem.browser-failed": "The browser used for scraping failed to start.",
+  "health.problem.chargers-stale": "{count} chargers have not been read successfully for more than {minutes} minutes.",
+  "health.problem.chargers-stale.general": "Some chargers have not been read successfully for a while.",
+
+  "site.label": "Site",
+  "site.all": "All sites",
+
+  "dashboard.title": "Charging station dashboard",
+  "dashboard.subtitle": "Charging stations in the company car park",
+  "dashboard.subtitleAllSites": "Charging stations at all sites",
+  "dashboard.subtitleSite": "Charging stations at {address}",
+  "dashboard.signedInAs": "Signed in as {name} ({role})",
+  "dashboard.siteForbidden": "You do not have access to this site.",
+  "dashboard.siteNotFound": "This site does not exist.",
+  "dashboard.reservedFor": "Reserved for {name} until {time}",
+  "dashboard.status": "Status",
+  "dashboard.details": "Details",
+  "dashboard.copyright": "© {year} AUG. PRIEN Bauunternehmung (GmbH & Co. KG). All rights reserved.",
+
+  "charger.fallbackName": "Charger {number}",
+  "charger.plugType": "Plug type",
+  "charger.power": "Power",
+  "charger.price": "Price",
+  "charger.operator": "Operator",
+  "charger.lastUpdated": "Last updated",
+  "charger.stale": "As of {time}: the latest check failed",
+
+  "override.setBy": "Set manually by {name}: “{reason}”",
+  "override.setByAt": "Set manually by {name} on {time}: “{reason}”",
+  "override.untilChange": "Until the next observed change, at the latest {time}",
+  "override.until": "Valid until {time}",
+  "override.observed": "Observed: {status}",
+  "override.clear": "Lift",
+
+  "statusDialog.title": "Update status",
+  "statusDialog.description": "Manually update the status of {location}",
+  "statusDialog.reason": "Reason",
+  "statusDialog.reasonPlaceholder": "e.g. cable damaged, reported by the caretaker",
+  "statusDialog.expiry": "Valid",
+  "statusDialog.untilChange": "Until the next observed change",
+  "statusDialog.oneHour": "For 1 hour",
+  "statusDialog.hours": "For {count} hours",
+  "statusDialog.forbidden": "You are not allowed to do this. Please sign in.",
+  "statusDialog.unusualTransition": "Unusual change: chargers do not normally go from “{from}” to “{to}”. The status will be set anyway.",
+  "statusDialog.failed": "The status could not be updated.",
+  "statusDialog.submit": "Update",
+  "statusDialog.submitting": "Updating...",
+
+  "waitlist.title": "Queue",
+  "waitlist.empty": "Nobody is waiting",
+  "waitlist.waitingOne": "1 person waiting: {names}",
+  "waitlist.waitingMany": "{count} people waiting: {names}",
+  "waitlist.claim": "{charger} is free and held for you for another",
+  "waitlist.accept": "On my way",
+  "waitlist.skip": "Skip",
+  "waitlist.position": "You are number {position} in the queue. We will let you know here as soon as a charger is free.",
+  "waitlist.leave": "Leave",
+  "waitlist.namePlaceholder": "Your name",
+  "waitlist.join": "Join the queue",
+
+  "calculator.title": "Cost calculator",
+  "calculator.description": "Enter how many kWh you need; every charger then shows the estimated cost.",
+  "calculator.energy": "Energy in kWh",
+  "calculator.estimate": "Estimated cost",
+  "calculator.breakdown": "Energy {energy}, time {time}, blocking fee {blocking} for about {minutes} min of charging",
+  "calculator.noTariff": "No tariff available",
+  "calculator.notValid": "Tariff not valid at the moment",
+
+  "details.fallbackTitle": "Charger",
+  "details.openChrgDirect": "Open on chrg.direct",
+  "details.notFound": "This charger does not exist.",
+  "details.loadFailed": "The charger could not be loaded.",
+  "details.currentStatus": "Current status",
+  "details.live": "Updated live",
+  "details.connecting": "Connecting for live updates...",
+  "details.source": "Source",
+  "details.noSource": "None",
+  "details.confidence": "Confidence",
+  "details.realTime": "Real time",
+  "details.pending": "Not polled yet",
+  "details.equipment": "Equipment",
+  "details.masterData": "Master data",
+  "details.timeline": "Timeline",
+  "details.timelineToday": "Observed status today",
+  "details.timelineDays": "Observed status over the last {count} days",
+  "details.today": "Today",
+  "details.overrides": "Manual changes",
+  "details.overridesRecent": "The last {count}, newest first",
+  "details.overridesHidden": "Manual changes are only visible to signed-in employees.",
+  "details.noOverrides": "The status of this charger has never been changed manually.",
+
+  "audit.title": "Audit log",
+  "audit.subtitle": "Manual status changes and their reasons",
+  "audit.entries": "Entries",
+  "audit.newestFirst": "Newest first",
+  "audit.allChargers": "All chargers",
+  "audit.userPlaceholder": "Username",
+  "audit.filter": "Filter",
+  "audit.forbidden": "The audit log is only visible to signed-in employees.",
+  "audit.empty": "No entries found.",
+  "audit.time": "Time",
+  "audit.charger": "Charger",
+  "audit.user": "User",
+  "audit.change": "Change",
+  "audit.reason": "Reason",
+
+  "analytics.title": "Utilisation",
+  "analytics.subtitle": "Charger occupancy by weekday and time of day",
+  "analytics.observations": "{count} observations",
+  "analytics.noData": "{slot}: no data",
+  "analytics.occupancy": "{slot}: {occupancy} % occupied ({count} observations)",
+
+  "export.title": "Export",
+  "export.description": "Download observations, charging sessions and manual status changes as a spreadsheet",
+  "export.from": "From",
+  "export.to": "To",
+  "export.chargers": "Chargers",
+  "export.dataset": "Data",
+  "export.dataset.observations": "Status observations",
+  "export.dataset.sessions": "Charging sessions",
+  "export.dataset.overrides": "Manual status changes",
+  "export.format": "Format",
+  "export.format.csv": "CSV (Excel)",
+  "export.format.json": "JSON",
+  "export.download": "Download",
+  "export.invalidRange": "The end date must not be before the start date",
+  "export.noChargers": "Select at least one charger",
+  "export.column.timestamp": "Time",
+  "export.column.evseId": "EVSE ID",
+  "export.column.location": "Charger",
+  "export.column.status": "Status",
+  "export.column.statusText": "Status text",
+  "export.column.source": "Source",
+  "export.column.start": "Start",
+  "export.column.end": "End",
+  "export.column.durationMinutes": "Duration (min)",
+  "export.column.durationHours": "Duration (h)",
+  "export.column.gapMinutes": "Unobserved (min)",
+  "export.column.estimated": "Estimated",
+  "export.column.energyPrice": "Price per kWh",
+  "export.column.previousStatus": "Previous status",
+  "export.column.newStatus": "New status",
+  "export.column.name": "Name",
+  "export.column.username": "User",
+  "export.column.reason": "Reason",
+
+  "login.title": "Sign in",
+  "login.description": "Employees sign in to change the status of chargers",
+  "login.username": "Username",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.submitting": "Signing in...",
+  "login.invalid": "Wrong username or password",
+  "login.oidc": "Sign in with company account",
+  "login.back": "Back to the dashboard",
+  "login.error.invalid_state": "The sign-in has expired, please try again.",
+  "login.error.oidc_failed": "Signing in with the company account failed.",
+  "login.error.oidc_disabled": "Signing in with a company account is not set up.",
+  "login.error.other": "Sign-in failed ({reason})",
+}
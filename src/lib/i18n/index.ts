@@ -0,0 +1,74 @@
+// Shared by server and client: no Node.js imports here
+import { de } from "@/lib/i18n/de"
+import { en } from "@/lib/i18n/en"
+
+export const LOCALES = ["de", "en"] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = "de"
+
+// Remembers the choice of the locale switcher
+export const LOCALE_COOKIE = "locale"
+
+export type MessageKey = keyof typeof de
+export type Messages = Record<MessageKey, string>
+export type MessageParams = Record<string, string | number>
+
+const CATALOGS: Record<Locale, Messages> = { de, en }
+
+// Language tags for Intl; British English for 24-hour times and day-month dates
+const LOCALE_TAGS: Record<Locale, string> = { de: "de-DE", en: "en-GB" }
+
+export const LOCALE_NAMES: Record<Locale, string> = { de: "Deutsch", en: "English" }
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+// Look up a message and fill in its {placeholders}
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  )
+}
+
+// The stored choice wins, then the browser's preferred languages in order
+export function resolveLocale(stored: string | null | undefined, acceptLanguage: string | null | undefined): Locale {
+  if (isLocale(stored)) return stored
+
+  const preferred = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, quality] = part.trim().split(";q=")
+      return { language: tag.split("-")[0].toLowerCase(), quality: quality ? Number(quality) : 1 }
+    })
+    .sort((a, b) => b.quality - a.quality)
+    .find(({ language }) => isLocale(language))
+
+  return (preferred?.language as Locale | undefined) ?? DEFAULT_LOCALE
+}
+
+export function formatDateTime(
+  locale: Locale,
+  value: string | number | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "short", timeStyle: "short" },
+): string {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? "–" : date.toLocaleString(LOCALE_TAGS[locale], options)
+}
+
+// "45 min", "2 h" or "2 h 5 min"
+export function formatDuration(locale: Locale, minutes: number): string {
+  const rounded = Math.max(Math.round(minutes), 0)
+  if (rounded < 60) return translate(locale, "duration.minutes", { minutes: rounded })
+  const hours = Math.floor(rounded / 60)
+  return rounded % 60
+    ? translate(locale, "duration.hoursMinutes", { hours, minutes: rounded % 60 })
+    : translate(locale, "duration.hours", { hours })
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(LOCALE_TAGS[locale], options)
+}
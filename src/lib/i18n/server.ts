@@ -0,0 +1,9 @@
+import { readCookie } from "@/lib/auth/session"
+import { isLocale, LOCALE_COOKIE, resolveLocale, type Locale } from "@/lib/i18n"
+
+// Language of an API response: ?lang= for scripts, then the dashboard's cookie, then Accept-Language
+export function localeFromRequest(request: Request): Locale {
+  const lang = new URL(request.url).searchParams.get("lang")
+  if (isLocale(lang)) return lang
+  return resolveLocale(readCookie(request, LOCALE_COOKIE), request.headers.get("accept-language"))
+}
@@ -0,0 +1,114 @@
+import { getBrowserPoolStats } from "@/lib/providers/browser-pool"
+import type { ProviderAttempt } from "@/lib/providers"
+import { PROVIDER_NAMES, type ProviderName } from "@/lib/providers/types"
+import { singleton } from "@/lib/singleton"
+import { CHARGER_STATUSES, type ChargerStatus } from "@/lib/status"
+
+const PREFIX = "prien_charger"
+
+// Upper bounds in seconds; a scrape with puppeteer usually takes a few seconds
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30]
+
+// How /api/charger answered: from a fresh cache entry, from a stale one while a
+// refresh is queued, without any entry yet, or with a forced refresh
+export type CacheResult = "hit" | "stale" | "miss" | "bypass"
+
+export interface ChargerStatusSample {
+  evseId: string;
+  siteId: string;
+  status: ChargerStatus;
+}
+
+interface Histogram {
+  // Cumulative counts per bucket of DURATION_BUCKETS
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+const state = singleton("metrics", () => ({
+  scrapeDurations: new Map<ProviderName, Histogram>(),
+  // Keyed by provider and error kind, e.g. "puppeteer timeout"
+  scrapeFailures: new Map<string, number>(),
+  cacheLookups: new Map<CacheResult, number>(),
+}))
+
+// Count one provider call, successful or not
+export function recordScrape(attempt: ProviderAttempt) {
+  let histogram = state.scrapeDurations.get(attempt.provider)
+  if (!histogram) {
+    histogram = { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 }
+    state.scrapeDurations.set(attempt.provider, histogram)
+  }
+  const seconds = attempt.durationMs / 1000
+  DURATION_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) histogram.buckets[index]++
+  })
+  histogram.sum += seconds
+  histogram.count++
+
+  if (attempt.errorKind) {
+    const key = `${attempt.provider} ${attempt.errorKind}`
+    state.scrapeFailures.set(key, (state.scrapeFailures.get(key) ?? 0) + 1)
+  }
+}
+
+export function recordCacheLookup(result: CacheResult) {
+  state.cacheLookups.set(result, (state.cacheLookups.get(result) ?? 0) + 1)
+}
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function labels(values: Record<string, string>) {
+  const pairs = Object.entries(values).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+function metric(lines: string[], name: string, type: "counter" | "gauge" | "histogram", help: string) {
+  lines.push(`# HELP ${PREFIX}_${name} ${help}`, `# TYPE ${PREFIX}_${name} ${type}`)
+  return (suffix: string, values: Record<string, string>, value: number) =>
+    lines.push(`${PREFIX}_${name}${suffix}${labels(values)} ${value}`)
+}
+
+// Everything in the Prometheus text exposition format, with the given chargers' statuses
+export function renderMetrics(chargers: ChargerStatusSample[]): string {
+  const lines: string[] = []
+
+  const duration = metric(lines, "scrape_duration_seconds", "histogram", "Time a status provider took per charger, failures included")
+  for (const provider of PROVIDER_NAMES) {
+    const histogram = state.scrapeDurations.get(provider)
+    if (!histogram) continue
+    DURATION_BUCKETS.forEach((bound, index) => duration("_bucket", { provider, le: String(bound) }, histogram.buckets[index]))
+    duration("_bucket", { provider, le: "+Inf" }, histogram.count)
+    duration("_sum", { provider }, histogram.sum)
+    duration("_count", { provider }, histogram.count)
+  }
+
+  const failures = metric(lines, "scrape_failures_total", "counter", "Failed status provider calls by error kind")
+  for (const [key, count] of state.scrapeFailures) {
+    const [provider, kind] = key.split(" ")
+    failures("", { provider, kind }, count)
+  }
+
+  const cache = metric(lines, "status_cache_requests_total", "counter", "Requests to /api/charger by how the status cache answered them")
+  for (const [result, count] of state.cacheLookups) {
+    cache("", { result }, count)
+  }
+
+  const pool = getBrowserPoolStats()
+  metric(lines, "browser_open_pages", "gauge", "Chromium pages currently open for scraping")("", {}, pool.openPages)
+  metric(lines, "browser_max_pages", "gauge", "Chromium pages that may be open at the same time")("", {}, pool.maxPages)
+  metric(lines, "browser_waiting_requests", "gauge", "Scrapes waiting for a free Chromium page")("", {}, pool.waiting)
+
+  // One series per status, 1 for the current one, so dashboards can sum by status
+  const status = metric(lines, "status", "gauge", "Current status of each charger, 1 for the status it is in")
+  for (const charger of chargers) {
+    for (const candidate of CHARGER_STATUSES) {
+      status("", { evse_id: charger.evseId, site_id: charger.siteId, status: candidate }, candidate === charger.status ? 1 : 0)
+    }
+  }
+
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,58 @@
+import { timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+import { OCPI_CLIENT_ERROR, OCPI_SUCCESS } from "@/lib/ocpi/types"
+
+// Tokens (credentials token C) our OCPI partners may use, comma-separated
+function getAcceptedTokens() {
+  return (process.env.OCPI_TOKENS || "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean)
+}
+
+function safeEqual(a: string, b: string) {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+// OCPI 2.2 sends "Authorization: Token <base64(token)>"; older clients send the token as is
+function isAuthorized(request: Request) {
+  const header = request.headers.get("authorization") || ""
+  const match = header.match(/^Token\s+(\S+)$/i)
+  if (!match) return false
+
+  const presented = match[1]
+  const decoded = Buffer.from(presented, "base64").toString("utf8")
+  return getAcceptedTokens().some((token) => safeEqual(presented, token) || safeEqual(decoded, token))
+}
+
+// Request tracing headers must be echoed back on every response
+function tracingHeaders(request: Request): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const name of ["X-Request-ID", "X-Correlation-ID"]) {
+    const value = request.headers.get(name)
+    if (value) headers[name] = value
+  }
+  return headers
+}
+
+export function ocpiResponse(request: Request, data: unknown, headers: Record<string, string> = {}) {
+  return NextResponse.json(
+    { data, status_code: OCPI_SUCCESS, status_message: "Success", timestamp: new Date().toISOString() },
+    { headers: { ...tracingHeaders(request), ...headers } },
+  )
+}
+
+export function ocpiError(request: Request, httpStatus: number, statusCode: number, message: string) {
+  return NextResponse.json(
+    { status_code: statusCode, status_message: message, timestamp: new Date().toISOString() },
+    { status: httpStatus, headers: tracingHeaders(request) },
+  )
+}
+
+// Returns an error response for requests without valid credentials, null otherwise
+export function checkAuthorization(request: Request) {
+  if (isAuthorized(request)) return null
+  return ocpiError(request, 401, OCPI_CLIENT_ERROR, "Invalid or missing credentials token")
+}
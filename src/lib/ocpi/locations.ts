@@ -0,0 +1,155 @@
+import { listChargers, type ChargerInfo } from "@/lib/chargers"
+import { getCachedStatus } from "@/lib/charger-status"
+import type { OcpiConnector, OcpiEvse, OcpiEvseStatus, OcpiLocation } from "@/lib/ocpi/types"
+import { listSites, type Coordinates, type Site } from "@/lib/sites"
+import type { ChargerStatus } from "@/lib/status"
+
+// Used for chargers registered without coordinates: the Prien headquarters
+const FALLBACK_COORDINATES: Coordinates = { latitude: 47.856, longitude: 12.3453 }
+
+const TIME_ZONE = "Europe/Berlin"
+
+// OCPI wants ISO 3166-1 alpha-3, EVSE IDs carry alpha-2
+const COUNTRY_CODES: Record<string, string> = { DE: "DEU", AT: "AUT", CH: "CHE", IT: "ITA", FR: "FRA", NL: "NLD" }
+
+// OCPI has no separate states around a session, and reports lost connections as UNKNOWN
+const EVSE_STATUS: Record<ChargerStatus, OcpiEvseStatus> = {
+  available: "AVAILABLE",
+  preparing: "CHARGING",
+  charging: "CHARGING",
+  finishing: "CHARGING",
+  reserved: "RESERVED",
+  maintenance: "INOPERATIVE",
+  error: "OUTOFORDER",
+  offline: "UNKNOWN",
+  unknown: "UNKNOWN",
+}
+
+function latest(...dates: (string | undefined)[]) {
+  return dates.filter((date): date is string => Boolean(date)).sort().pop() as string
+}
+
+// "22 kW" or "3,7 kW" in watts
+function parsePowerWatts(leistung: string): number | undefined {
+  const match = leistung.replace(",", ".").match(/([\d.]+)\s*(k?W)/i)
+  if (!match) return undefined
+  const value = Number(match[1])
+  return Math.round(match[2].toLowerCase() === "kw" ? value * 1000 : value)
+}
+
+function toConnector(charger: ChargerInfo): OcpiConnector {
+  const plug = charger.steckertyp.toLowerCase()
+  const power = parsePowerWatts(charger.leistung)
+  const base = { id: "1", max_electric_power: power, last_updated: charger.updatedAt }
+
+  if (plug.includes("ccs") || plug.includes("combo")) {
+    return {
+      ...base,
+      standard: "IEC_62196_T2_COMBO",
+      format: "CABLE",
+      power_type: "DC",
+      max_voltage: 500,
+      max_amperage: Math.round((power ?? 50000) / 500),
+    }
+  }
+  if (plug.includes("chademo")) {
+    return {
+      ...base,
+      standard: "CHADEMO",
+      format: "CABLE",
+      power_type: "DC",
+      max_voltage: 500,
+      max_amperage: Math.round((power ?? 50000) / 500),
+    }
+  }
+  if (plug.includes("schuko")) {
+    return {
+      ...base,
+      standard: "DOMESTIC_F",
+      format: "SOCKET",
+      power_type: "AC_1_PHASE",
+      max_voltage: 230,
+      max_amperage: 16,
+    }
+  }
+  // Typ 2 / Mennekes, three-phase at 400 V
+  return {
+    ...base,
+    standard: "IEC_62196_T2",
+    format: "SOCKET",
+    power_type: "AC_3_PHASE",
+    max_voltage: 400,
+    max_amperage: Math.round((power ?? 22000) / (400 * Math.sqrt(3))),
+  }
+}
+
+function toEvse(charger: ChargerInfo): OcpiEvse {
+  const cached = getCachedStatus(charger.id)
+  const status = charger.retiredAt ? "REMOVED" : EVSE_STATUS[cached?.data.status ?? "unknown"]
+
+  return {
+    uid: charger.id,
+    evse_id: charger.id,
+    status,
+    capabilities: [],
+    connectors: [toConnector(charger)],
+    physical_reference: charger.location,
+    last_updated: latest(charger.updatedAt, cached?.data.lastUpdated),
+  }
+}
+
+// "Dampfschiffweg 2, 21079 Hamburg" or "Prien am Chiemsee, 83209"
+function parseAddress(address: string) {
+  const postalCode = address.match(/\b\d{5}\b/)?.[0]
+  const parts = address
+    .split(",")
+    .map((part) => (postalCode ? part.replace(postalCode, "") : part).trim())
+    .filter(Boolean)
+  const city = parts[parts.length - 1] ?? address
+  return { address: parts.length > 1 ? parts.slice(0, -1).join(", ") : city, city, postal_code: postalCode }
+}
+
+// Each site is one location
+export function locationId(siteId: string) {
+  return `LOC-${siteId.toUpperCase()}`
+}
+
+function toLocation(id: string, site: Site | undefined, chargers: ChargerInfo[]): OcpiLocation {
+  const [first] = chargers
+  const [countryCode, partyId] = first.id.split("*")
+  const coordinates =
+    site?.coordinates ?? chargers.find((charger) => charger.coordinates)?.coordinates ?? FALLBACK_COORDINATES
+  const evses = chargers.map(toEvse)
+
+  return {
+    country_code: countryCode,
+    party_id: partyId,
+    id,
+    publish: true,
+    name: site?.name ?? first.operator,
+    ...parseAddress(site?.address ?? first.address),
+    country: COUNTRY_CODES[countryCode] ?? countryCode,
+    coordinates: {
+      latitude: coordinates.latitude.toFixed(6),
+      longitude: coordinates.longitude.toFixed(6),
+    },
+    evses,
+    operator: { name: first.operator },
+    time_zone: TIME_ZONE,
+    last_updated: latest(...evses.map((evse) => evse.last_updated)),
+  }
+}
+
+// All locations, including retired chargers as REMOVED so partners can drop them
+export async function getLocations(): Promise<OcpiLocation[]> {
+  const sites = new Map((await listSites()).map((site) => [site.id, site]))
+  const groups = new Map<string, ChargerInfo[]>()
+  for (const charger of await listChargers({ includeRetired: true })) {
+    groups.set(charger.siteId, [...(groups.get(charger.siteId) ?? []), charger])
+  }
+  return [...groups.entries()].map(([siteId, chargers]) => toLocation(locationId(siteId), sites.get(siteId), chargers))
+}
+
+export async function getLocation(id: string): Promise<OcpiLocation | undefined> {
+  return (await getLocations()).find((location) => location.id === id)
+}
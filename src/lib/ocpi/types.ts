@@ -0,0 +1,58 @@
+// Subset of the OCPI 2.2 Locations module objects that we publish
+
+export type OcpiEvseStatus =
+  | "AVAILABLE"
+  | "BLOCKED"
+  | "CHARGING"
+  | "INOPERATIVE"
+  | "OUTOFORDER"
+  | "PLANNED"
+  | "REMOVED"
+  | "RESERVED"
+  | "UNKNOWN"
+
+export type OcpiConnectorStandard = "IEC_62196_T2" | "IEC_62196_T2_COMBO" | "CHADEMO" | "DOMESTIC_F"
+
+export interface OcpiConnector {
+  id: string;
+  standard: OcpiConnectorStandard;
+  format: "SOCKET" | "CABLE";
+  power_type: "AC_1_PHASE" | "AC_3_PHASE" | "DC";
+  max_voltage: number;
+  max_amperage: number;
+  max_electric_power?: number;
+  last_updated: string;
+}
+
+export interface OcpiEvse {
+  uid: string;
+  evse_id: string;
+  status: OcpiEvseStatus;
+  capabilities: string[];
+  connectors: OcpiConnector[];
+  physical_reference?: string;
+  last_updated: string;
+}
+
+export interface OcpiLocation {
+  country_code: string;
+  party_id: string;
+  id: string;
+  publish: boolean;
+  name: string;
+  address: string;
+  city: string;
+  postal_code?: string;
+  country: string;
+  coordinates: { latitude: string; longitude: string };
+  evses: OcpiEvse[];
+  operator: { name: string };
+  time_zone: string;
+  last_updated: string;
+}
+
+// OCPI status codes used in the response envelope
+export const OCPI_SUCCESS = 1000
+export const OCPI_CLIENT_ERROR = 2000
+export const OCPI_INVALID_PARAMETERS = 2001
+export const OCPI_UNKNOWN_LOCATION = 2003
@@ -0,0 +1,246 @@
+import { listChargers } from "@/lib/chargers"
+import { requestRefresh } from "@/lib/scheduler"
+import { singleton } from "@/lib/singleton"
+import {
+  CALL,
+  CALL_ERROR,
+  CALL_RESULT,
+  isChargePointStatus,
+  OcppError,
+  type ChargePointStatus,
+  type OcppCallError,
+  type OcppCallResult,
+} from "@/lib/ocpp/messages"
+
+// Interval we ask charge points to send heartbeats in, in seconds
+export const HEARTBEAT_INTERVAL = 60
+
+export interface ConnectorState {
+  status: ChargePointStatus;
+  errorCode: string;
+  timestamp: string;
+}
+
+export interface TransactionState {
+  transactionId: number;
+  connectorId: number;
+  idTag: string;
+  meterStart: number;
+  startedAt: string;
+  meterStop?: number;
+  stoppedAt?: string;
+  stopReason?: string;
+}
+
+export interface MeterReading {
+  timestamp: string;
+  // Energy.Active.Import.Register in Wh
+  energyWh?: number;
+  // Power.Active.Import in W
+  powerW?: number;
+}
+
+export interface ChargePointState {
+  chargePointId: string;
+  connected: boolean;
+  vendor?: string;
+  model?: string;
+  firmwareVersion?: string;
+  bootedAt?: string;
+  lastSeen: string;
+  connectors: Record<number, ConnectorState>;
+  meterValues: Record<number, MeterReading>;
+  transactions: TransactionState[];
+}
+
+const MAX_TRANSACTIONS_KEPT = 20
+
+const state = singleton("ocppCentralSystem", () => ({
+  chargePoints: new Map<string, ChargePointState>(),
+  nextTransactionId: 1,
+}))
+
+export function getChargePoint(chargePointId: string): ChargePointState | undefined {
+  return state.chargePoints.get(chargePointId)
+}
+
+export function listChargePoints(): ChargePointState[] {
+  return [...state.chargePoints.values()]
+}
+
+// Online means connected and heard from within two heartbeat intervals
+export function isOnline(chargePoint: ChargePointState) {
+  return chargePoint.connected && Date.now() - new Date(chargePoint.lastSeen).getTime() < HEARTBEAT_INTERVAL * 2 * 1000
+}
+
+export function setConnected(chargePointId: string, connected: boolean) {
+  const chargePoint = state.chargePoints.get(chargePointId) ?? {
+    chargePointId,
+    connected,
+    lastSeen: new Date().toISOString(),
+    connectors: {},
+    meterValues: {},
+    transactions: [],
+  }
+  chargePoint.connected = connected
+  chargePoint.lastSeen = new Date().toISOString()
+  state.chargePoints.set(chargePointId, chargePoint)
+  notifyChargers(chargePointId).catch((error) =>
+    console.error(`Error refreshing chargers of ${chargePointId}: ${error instanceof Error ? error.message : error}`),
+  )
+}
+
+// Charge point ids that belong to a registered charger
+export async function isKnownChargePoint(chargePointId: string) {
+  const chargers = await listChargers()
+  return chargers.some((charger) => charger.ocpp?.chargePointId === chargePointId)
+}
+
+// Let the scheduler pick up the new telemetry through the provider chain right away
+async function notifyChargers(chargePointId: string, connectorId?: number) {
+  const chargers = await listChargers()
+  for (const charger of chargers) {
+    if (charger.ocpp?.chargePointId !== chargePointId) continue
+    if (connectorId !== undefined && connectorId !== 0 && charger.ocpp.connectorId !== connectorId) continue
+    requestRefresh(charger.id)
+  }
+}
+
+function requireField<T>(payload: Record<string, unknown>, field: string, type: "string" | "number"): T {
+  if (typeof payload[field] !== type) {
+    throw new OcppError("TypeConstraintViolation", `${field} must be a ${type}`)
+  }
+  return payload[field] as T
+}
+
+function readMeterValues(payload: Record<string, unknown>): MeterReading {
+  const meterValue = payload.meterValue
+  if (!Array.isArray(meterValue) || meterValue.length === 0) {
+    throw new OcppError("TypeConstraintViolation", "meterValue must be a non-empty array")
+  }
+
+  // Only the newest sample matters for the dashboard
+  const latest = meterValue[meterValue.length - 1]
+  const reading: MeterReading = { timestamp: String(latest?.timestamp ?? new Date().toISOString()) }
+
+  for (const sample of Array.isArray(latest?.sampledValue) ? latest.sampledValue : []) {
+    const value = Number(sample?.value)
+    if (isNaN(value)) continue
+    const factor = sample?.unit === "kWh" || sample?.unit === "kW" ? 1000 : 1
+    const measurand = sample?.measurand ?? "Energy.Active.Import.Register"
+    if (measurand === "Energy.Active.Import.Register") {
+      reading.energyWh = value * factor
+    } else if (measurand === "Power.Active.Import") {
+      reading.powerW = value * factor
+    }
+  }
+
+  return reading
+}
+
+function handleCall(chargePoint: ChargePointState, action: string, payload: Record<string, unknown>): Record<string, unknown> {
+  const now = new Date().toISOString()
+
+  switch (action) {
+    case "BootNotification": {
+      chargePoint.vendor = requireField<string>(payload, "chargePointVendor", "string")
+      chargePoint.model = requireField<string>(payload, "chargePointModel", "string")
+      chargePoint.firmwareVersion = typeof payload.firmwareVersion === "string" ? payload.firmwareVersion : undefined
+      chargePoint.bootedAt = now
+      return { status: "Accepted", currentTime: now, interval: HEARTBEAT_INTERVAL }
+    }
+
+    case "Heartbeat":
+      return { currentTime: now }
+
+    case "StatusNotification": {
+      const connectorId = requireField<number>(payload, "connectorId", "number")
+      if (!isChargePointStatus(payload.status)) {
+        throw new OcppError("PropertyConstraintViolation", "status is not a valid ChargePointStatus")
+      }
+      chargePoint.connectors[connectorId] = {
+        status: payload.status,
+        errorCode: typeof payload.errorCode === "string" ? payload.errorCode : "NoError",
+        timestamp: typeof payload.timestamp === "string" ? payload.timestamp : now,
+      }
+      notifyChargers(chargePoint.chargePointId, connectorId).catch((error) =>
+        console.error(`Error refreshing chargers of ${chargePoint.chargePointId}: ${error instanceof Error ? error.message : error}`),
+      )
+      return {}
+    }
+
+    case "StartTransaction": {
+      const transaction: TransactionState = {
+        transactionId: state.nextTransactionId++,
+        connectorId: requireField<number>(payload, "connectorId", "number"),
+        idTag: requireField<string>(payload, "idTag", "string"),
+        meterStart: requireField<number>(payload, "meterStart", "number"),
+        startedAt: requireField<string>(payload, "timestamp", "string"),
+      }
+      chargePoint.transactions = [transaction, ...chargePoint.transactions].slice(0, MAX_TRANSACTIONS_KEPT)
+      return { transactionId: transaction.transactionId, idTagInfo: { status: "Accepted" } }
+    }
+
+    case "StopTransaction": {
+      const transactionId = requireField<number>(payload, "transactionId", "number")
+      const transaction = chargePoint.transactions.find((entry) => entry.transactionId === transactionId)
+      // Unknown transactions are still acknowledged, as the spec asks
+      if (transaction) {
+        transaction.meterStop = requireField<number>(payload, "meterStop", "number")
+        transaction.stoppedAt = requireField<string>(payload, "timestamp", "string")
+        transaction.stopReason = typeof payload.reason === "string" ? payload.reason : "Local"
+      }
+      return { idTagInfo: { status: "Accepted" } }
+    }
+
+    case "MeterValues": {
+      const connectorId = requireField<number>(payload, "connectorId", "number")
+      chargePoint.meterValues[connectorId] = readMeterValues(payload)
+      return {}
+    }
+
+    default:
+      throw new OcppError("NotImplemented", `Action ${action} is not supported`)
+  }
+}
+
+// Handle one raw WebSocket message and return the reply to send, if any
+export function handleMessage(chargePointId: string, raw: string): OcppCallResult | OcppCallError | null {
+  let message: unknown
+  try {
+    message = JSON.parse(raw)
+  } catch {
+    // Without a uniqueId there is nobody to reply to
+    return null
+  }
+
+  if (!Array.isArray(message) || typeof message[1] !== "string") {
+    return null
+  }
+
+  const [messageType, uniqueId] = message
+  // Replies to our own calls; we do not send any yet
+  if (messageType === CALL_RESULT || messageType === CALL_ERROR) {
+    return null
+  }
+  if (messageType !== CALL || typeof message[2] !== "string" || typeof message[3] !== "object" || message[3] === null) {
+    return [CALL_ERROR, uniqueId, "FormationViolation", "Expected [2, uniqueId, action, payload]", {}]
+  }
+
+  const chargePoint = state.chargePoints.get(chargePointId)
+  if (!chargePoint) {
+    return [CALL_ERROR, uniqueId, "GenericError", "Charge point is not connected", {}]
+  }
+  chargePoint.lastSeen = new Date().toISOString()
+
+  try {
+    return [CALL_RESULT, uniqueId, handleCall(chargePoint, message[2], message[3])]
+  } catch (error: unknown) {
+    if (error instanceof OcppError) {
+      return [CALL_ERROR, uniqueId, error.code, error.message, {}]
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error handling OCPP ${message[2]} from ${chargePointId}: ${errorMessage}`)
+    return [CALL_ERROR, uniqueId, "InternalError", errorMessage, {}]
+  }
+}
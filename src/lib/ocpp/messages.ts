@@ -0,0 +1,61 @@
+import { statusLabel, type ChargerStatus } from "@/lib/status"
+
+// OCPP 1.6-J message framing: [type, uniqueId, ...]
+export const CALL = 2
+export const CALL_RESULT = 3
+export const CALL_ERROR = 4
+
+export type OcppCall = [typeof CALL, string, string, Record<string, unknown>]
+export type OcppCallResult = [typeof CALL_RESULT, string, Record<string, unknown>]
+export type OcppCallError = [typeof CALL_ERROR, string, OcppErrorCode, string, Record<string, unknown>]
+
+export type OcppErrorCode =
+  | "NotImplemented"
+  | "NotSupported"
+  | "InternalError"
+  | "ProtocolError"
+  | "FormationViolation"
+  | "PropertyConstraintViolation"
+  | "TypeConstraintViolation"
+  | "GenericError"
+
+export class OcppError extends Error {
+  constructor(public code: OcppErrorCode, message: string) {
+    super(message)
+    this.name = "OcppError"
+  }
+}
+
+// ChargePointStatus values of a StatusNotification
+export type ChargePointStatus =
+  | "Available"
+  | "Preparing"
+  | "Charging"
+  | "SuspendedEVSE"
+  | "SuspendedEV"
+  | "Finishing"
+  | "Reserved"
+  | "Unavailable"
+  | "Faulted"
+
+// Map OCPP connector states onto the status model of the dashboard; a suspended session still occupies the charger
+const STATUS_MAP: Record<ChargePointStatus, ChargerStatus> = {
+  Available: "available",
+  Preparing: "preparing",
+  Charging: "charging",
+  SuspendedEVSE: "charging",
+  SuspendedEV: "charging",
+  Finishing: "finishing",
+  Reserved: "reserved",
+  Unavailable: "maintenance",
+  Faulted: "error",
+}
+
+export function isChargePointStatus(value: unknown): value is ChargePointStatus {
+  return typeof value === "string" && value in STATUS_MAP
+}
+
+export function mapChargePointStatus(status: ChargePointStatus) {
+  const mapped = STATUS_MAP[status]
+  return { status: mapped, statusText: statusLabel(mapped) }
+}
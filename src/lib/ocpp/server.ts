@@ -0,0 +1,119 @@
+import { timingSafeEqual } from "crypto"
+import type { IncomingMessage } from "http"
+import { WebSocketServer, type WebSocket } from "ws"
+import { handleMessage, isKnownChargePoint, setConnected } from "@/lib/ocpp/central-system"
+import { singleton } from "@/lib/singleton"
+
+export const OCPP_PORT = Number(process.env.OCPP_PORT) || 9220
+
+const OCPP_PATH_PREFIX = "/ocpp/"
+const OCPP_SUBPROTOCOL = "ocpp1.6"
+
+// Authorization key per charge point, as "CP-PRIEN-1=<key>,CP-PRIEN-2=<key>"
+function authorizationKeys() {
+  const keys = new Map<string, string>()
+  for (const entry of (process.env.OCPP_AUTH_KEYS || "").split(",")) {
+    const separator = entry.indexOf("=")
+    const chargePointId = entry.slice(0, separator).trim()
+    const key = entry.slice(separator + 1).trim()
+    if (separator > 0 && chargePointId && key) keys.set(chargePointId, key)
+  }
+  return keys
+}
+
+const state = singleton("ocppServer", () => ({
+  server: null as WebSocketServer | null,
+  // Open socket per charge point id; a reconnect replaces the old one
+  sockets: new Map<string, WebSocket>(),
+}))
+
+// Charge points connect to ws://host:OCPP_PORT/ocpp/<chargePointId>; undefined if the path is malformed
+function getChargePointId(request: IncomingMessage) {
+  const { pathname } = new URL(request.url || "/", "ws://localhost")
+  if (!pathname.startsWith(OCPP_PATH_PREFIX)) return null
+  try {
+    return decodeURIComponent(pathname.slice(OCPP_PATH_PREFIX.length)) || null
+  } catch {
+    return undefined
+  }
+}
+
+function safeEqual(a: string, b: string) {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+// OCPP 1.6 security profile 1: HTTP Basic auth with the charge point id as user name
+function isAuthorized(request: IncomingMessage, chargePointId: string) {
+  const key = authorizationKeys().get(chargePointId)
+  const [scheme, encoded] = (request.headers.authorization || "").split(" ")
+  if (!key || scheme?.toLowerCase() !== "basic" || !encoded) return false
+  const decoded = Buffer.from(encoded, "base64").toString("utf8")
+  const separator = decoded.indexOf(":")
+  return separator > 0 && decoded.slice(0, separator) === chargePointId && safeEqual(decoded.slice(separator + 1), key)
+}
+
+function handleConnection(socket: WebSocket, request: IncomingMessage) {
+  // Checked in verifyClient already
+  const chargePointId = getChargePointId(request)!
+
+  state.sockets.get(chargePointId)?.close(1000, "Replaced by a new connection")
+  state.sockets.set(chargePointId, socket)
+  setConnected(chargePointId, true)
+  console.log(`OCPP charge point ${chargePointId} connected`)
+
+  socket.on("message", (data) => {
+    const reply = handleMessage(chargePointId, data.toString())
+    if (reply) {
+      socket.send(JSON.stringify(reply))
+    }
+  })
+
+  socket.on("close", () => {
+    if (state.sockets.get(chargePointId) === socket) {
+      state.sockets.delete(chargePointId)
+      setConnected(chargePointId, false)
+      console.log(`OCPP charge point ${chargePointId} disconnected`)
+    }
+  })
+}
+
+// Start the OCPP 1.6-J central system WebSocket server
+export function startOcppServer() {
+  if (state.server) return
+
+  state.server = new WebSocketServer({
+    port: OCPP_PORT,
+    handleProtocols: (protocols) => (protocols.has(OCPP_SUBPROTOCOL) ? OCPP_SUBPROTOCOL : false),
+    verifyClient: (info, callback) => {
+      const chargePointId = getChargePointId(info.req)
+      if (chargePointId === undefined) {
+        callback(false, 400, "Malformed charge point id")
+        return
+      }
+      if (!chargePointId) {
+        callback(false, 404, "Unknown path")
+        return
+      }
+      if (!isAuthorized(info.req, chargePointId)) {
+        callback(false, 401, "Unauthorized", { "WWW-Authenticate": 'Basic realm="OCPP"' })
+        return
+      }
+      isKnownChargePoint(chargePointId)
+        .then((known) => (known ? callback(true) : callback(false, 404, "Unknown charge point")))
+        .catch(() => callback(false, 500))
+    },
+  })
+
+  state.server.on("connection", handleConnection)
+  state.server.on("error", (error) => {
+    console.error(`OCPP server error: ${error.message}`)
+  })
+}
+
+export function stopOcppServer() {
+  state.server?.close()
+  state.server = null
+  state.sockets.clear()
+}
@@ -0,0 +1,145 @@
+import { singleton } from "@/lib/singleton"
+import type { ChargerStatus } from "@/lib/status"
+import { readJsonFile, writeJsonFile } from "@/lib/storage"
+
+const OVERRIDES_FILE = "overrides.json"
+
+export const OVERRIDE_POLICIES = ["ttl", "until-change"] as const
+
+export type OverridePolicy = (typeof OVERRIDE_POLICIES)[number]
+
+// How long a "ttl" override lasts unless the user picks a duration
+export const DEFAULT_OVERRIDE_TTL = (Number(process.env.OVERRIDE_TTL_MINUTES) || 4 * 60) * 60 * 1000
+// No override outlives this, whatever its policy, so a forgotten one cannot hide the real status for days
+export const MAX_OVERRIDE_TTL = (Number(process.env.OVERRIDE_MAX_HOURS) || 24) * 60 * 60 * 1000
+
+// A manual status that takes precedence over the observed one for a while
+export interface StatusOverride {
+  evseId: string;
+  status: ChargerStatus;
+  policy: OverridePolicy;
+  setAt: string;
+  expiresAt: string;
+  username: string;
+  name: string;
+  reason: string;
+  // Observed status when the override was set; "until-change" ends once it moves. Null until one is known.
+  baselineStatus: ChargerStatus | null;
+}
+
+// Why an override stopped applying
+export type OverrideEnd = "expired" | "confirmed" | "superseded" | "cleared"
+
+const state = singleton("statusOverrides", () => ({
+  overrides: null as Record<string, StatusOverride> | null,
+  // Serialises writes so concurrent requests cannot overwrite each other
+  queue: Promise.resolve() as Promise<unknown>,
+}))
+
+async function load(): Promise<Record<string, StatusOverride>> {
+  if (!state.overrides) {
+    state.overrides = await readJsonFile<Record<string, StatusOverride>>(OVERRIDES_FILE, {})
+  }
+  return state.overrides
+}
+
+function mutate<T>(change: (overrides: Record<string, StatusOverride>) => T): Promise<T> {
+  const run = state.queue.then(async () => {
+    // Changed on a copy that only replaces the one in memory once it is on disk
+    const overrides = structuredClone(await load())
+    const result = change(overrides)
+    await writeJsonFile(OVERRIDES_FILE, overrides)
+    state.overrides = overrides
+    return result
+  })
+  state.queue = run.catch(() => undefined)
+  return run
+}
+
+// Decide whether an override still applies, given the status we observe right now
+export function reconcile(override: StatusOverride, observedStatus: ChargerStatus, now = Date.now()): OverrideEnd | null {
+  if (now >= new Date(override.expiresAt).getTime()) return "expired"
+  // A failed scrape tells us nothing either way
+  if (observedStatus === "unknown") return null
+  if (observedStatus === override.status) return "confirmed"
+  if (override.policy === "until-change" && override.baselineStatus !== null && observedStatus !== override.baselineStatus) {
+    return "superseded"
+  }
+  return null
+}
+
+export async function listOverrides(): Promise<StatusOverride[]> {
+  return Object.values(await load())
+}
+
+// The override for a charger if it has not expired yet
+export async function getOverride(evseId: string): Promise<StatusOverride | undefined> {
+  const override = (await load())[evseId]
+  return override && Date.now() < new Date(override.expiresAt).getTime() ? override : undefined
+}
+
+export function setOverride(
+  input: Pick<StatusOverride, "evseId" | "status" | "policy" | "username" | "name" | "reason" | "baselineStatus">,
+  ttl: number,
+): Promise<StatusOverride> {
+  return mutate((overrides) => {
+    const now = Date.now()
+    const override: StatusOverride = {
+      ...input,
+      baselineStatus: input.baselineStatus === "unknown" ? null : input.baselineStatus,
+      setAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + Math.min(ttl, MAX_OVERRIDE_TTL)).toISOString(),
+    }
+    overrides[input.evseId] = override
+    return override
+  })
+}
+
+export function clearOverride(evseId: string): Promise<StatusOverride | undefined> {
+  return mutate((overrides) => {
+    const existing = overrides[evseId]
+    delete overrides[evseId]
+    return existing
+  })
+}
+
+// Put back an override exactly as it was, or none, when a change to it could not be audited
+export function restoreOverride(evseId: string, override: StatusOverride | undefined): Promise<void> {
+  return mutate((overrides) => {
+    if (override) {
+      overrides[evseId] = override
+    } else {
+      delete overrides[evseId]
+    }
+  })
+}
+
+// Apply a fresh observation: ends the override if it no longer applies, otherwise returns it
+export async function reconcileOverride(evseId: string, observedStatus: ChargerStatus): Promise<StatusOverride | undefined> {
+  const override = (await load())[evseId]
+  if (!override) return undefined
+
+  const end = reconcile(override, observedStatus)
+  if (end) {
+    await mutate((overrides) => {
+      if (overrides[evseId]?.setAt === override.setAt) {
+        delete overrides[evseId]
+      }
+    })
+    console.log(`Override ${override.status} on ${evseId} ended (${end}), observed ${observedStatus}`)
+    return undefined
+  }
+
+  // Set while the status was unknown: the first real observation becomes the baseline
+  if (override.baselineStatus === null && observedStatus !== "unknown") {
+    return mutate((overrides) => {
+      const current = overrides[evseId]
+      if (current?.setAt === override.setAt) {
+        current.baselineStatus = observedStatus
+      }
+      return current
+    })
+  }
+
+  return override
+}
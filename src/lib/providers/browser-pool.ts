@@ -0,0 +1,246 @@
+import puppeteer, { type Browser, type Page } from "puppeteer"
+import { ProviderError } from "@/lib/providers/errors"
+import { singleton } from "@/lib/singleton"
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name])
+  return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback
+}
+
+// Pages open at the same time; further requests wait for a free slot
+export const BROWSER_MAX_PAGES = Math.max(1, numberFromEnv("BROWSER_MAX_PAGES", 2))
+// Chromium is closed after this long without pages, and started again on demand
+export const BROWSER_IDLE_TIMEOUT = numberFromEnv("BROWSER_IDLE_MS", 5 * 60 * 1000)
+// A browser not checked for this long is pinged before it gets new pages
+const HEALTH_CHECK_INTERVAL = 30 * 1000
+const HEALTH_CHECK_TIMEOUT = 5 * 1000
+
+const LAUNCH_ARGS = [
+  "--no-sandbox",
+  "--disable-setuid-sandbox",
+  "--disable-dev-shm-usage",
+  "--disable-accelerated-2d-canvas",
+  "--disable-gpu",
+]
+
+export interface BrowserPoolStats {
+  running: boolean;
+  openPages: number;
+  maxPages: number;
+  waiting: number;
+  launches: number;
+  crashes: number;
+  pagesOpened: number;
+  pageErrors: number;
+  lastLaunchAt: string | null;
+  // Why the latest attempt to start Chromium failed; null once it started
+  launchError: string | null;
+  lastHealthCheckAt: string | null;
+  lastError: string | null;
+}
+
+const state = singleton("browserPool", () => ({
+  browser: null as Browser | null,
+  launching: null as Promise<Browser> | null,
+  // Set while we close the browser ourselves, so the disconnect is not counted as a crash
+  closing: false,
+  openPages: 0,
+  // Resolvers of requests waiting for a page slot, in order
+  waiting: [] as (() => void)[],
+  idleTimer: null as NodeJS.Timeout | null,
+  lastHealthCheck: 0,
+  stats: {
+    launches: 0,
+    crashes: 0,
+    pagesOpened: 0,
+    pageErrors: 0,
+    lastLaunchAt: null as string | null,
+    launchError: null as string | null,
+    lastError: null as string | null,
+  },
+}))
+
+async function launch(): Promise<Browser> {
+  let browser: Browser
+  try {
+    browser = await puppeteer.launch({ headless: true, args: LAUNCH_ARGS })
+  } catch (error: unknown) {
+    state.stats.launchError = state.stats.lastError = error instanceof Error ? error.message : String(error)
+    throw error
+  }
+  state.stats.launchError = null
+  state.stats.launches++
+  state.stats.lastLaunchAt = new Date().toISOString()
+  state.lastHealthCheck = Date.now()
+
+  browser.on("disconnected", () => {
+    if (state.browser !== browser) return
+    state.browser = null
+    if (!state.closing) {
+      state.stats.crashes++
+      state.stats.lastError = "Browser disconnected unexpectedly"
+      console.error("Chromium disconnected unexpectedly, it will be relaunched on the next request")
+    }
+  })
+
+  state.browser = browser
+  return browser
+}
+
+// Kill a browser that no longer answers; close() would wait for it forever
+function discard(browser: Browser) {
+  if (state.browser === browser) {
+    state.browser = null
+  }
+  browser.process()?.kill("SIGKILL")
+}
+
+async function isAlive(browser: Browser) {
+  if (!browser.connected) return false
+  if (Date.now() - state.lastHealthCheck < HEALTH_CHECK_INTERVAL) return true
+
+  let timer: NodeJS.Timeout | undefined
+  try {
+    await Promise.race([
+      browser.version(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error("Health check timed out")), HEALTH_CHECK_TIMEOUT)
+      }),
+    ])
+    state.lastHealthCheck = Date.now()
+    return true
+  } catch (error: unknown) {
+    state.stats.lastError = error instanceof Error ? error.message : String(error)
+    return false
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// A live browser, launching or relaunching one if needed
+async function getBrowser(): Promise<Browser> {
+  if (state.browser) {
+    if (await isAlive(state.browser)) {
+      return state.browser
+    }
+    console.error("Chromium failed its health check, relaunching")
+    state.stats.crashes++
+    discard(state.browser)
+  }
+
+  if (!state.launching) {
+    state.launching = launch().finally(() => {
+      state.launching = null
+    })
+  }
+  return state.launching
+}
+
+function throwIfAborted(signal: AbortSignal | undefined, message: string) {
+  if (signal?.aborted) {
+    throw new ProviderError(message, "timeout")
+  }
+}
+
+async function acquireSlot(signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal, "Gave up waiting for a browser page")
+  if (state.openPages < BROWSER_MAX_PAGES) {
+    state.openPages++
+    return
+  }
+
+  return new Promise((resolve, reject) => {
+    const grant = () => {
+      signal?.removeEventListener("abort", cancel)
+      state.openPages++
+      resolve()
+    }
+    const cancel = () => {
+      state.waiting = state.waiting.filter((waiter) => waiter !== grant)
+      reject(new ProviderError("Gave up waiting for a browser page", "timeout"))
+    }
+    signal?.addEventListener("abort", cancel, { once: true })
+    state.waiting.push(grant)
+  })
+}
+
+function releaseSlot() {
+  state.openPages--
+  const next = state.waiting.shift()
+  if (next) {
+    next()
+  } else if (state.openPages === 0) {
+    scheduleIdleShutdown()
+  }
+}
+
+function scheduleIdleShutdown() {
+  if (state.idleTimer) clearTimeout(state.idleTimer)
+  state.idleTimer = setTimeout(async () => {
+    state.idleTimer = null
+    const browser = state.browser
+    if (!browser || state.openPages > 0) return
+
+    state.closing = true
+    try {
+      await browser.close()
+    } catch {
+      discard(browser)
+    } finally {
+      state.closing = false
+      if (state.browser === browser) state.browser = null
+    }
+  }, BROWSER_IDLE_TIMEOUT)
+}
+
+// Run fn with a fresh page; the page is closed afterwards whatever happens, also when signal aborts
+export async function withPage<T>(fn: (page: Page) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  await acquireSlot(signal)
+  if (state.idleTimer) {
+    clearTimeout(state.idleTimer)
+    state.idleTimer = null
+  }
+
+  let page: Page | null = null
+  const closePage = () => {
+    page?.close().catch(() => undefined)
+    page = null
+  }
+
+  try {
+    const browser = await getBrowser()
+    throwIfAborted(signal, "Gave up before a browser page was open")
+    page = await browser.newPage()
+    state.stats.pagesOpened++
+    // An abort while the page was opening is only seen here; the finally block closes the page
+    throwIfAborted(signal, "Gave up before a browser page was open")
+    // Closing the page makes whatever fn is waiting for reject right away
+    signal?.addEventListener("abort", closePage, { once: true })
+    return await fn(page)
+  } catch (error: unknown) {
+    state.stats.pageErrors++
+    state.stats.lastError = error instanceof Error ? error.message : String(error)
+    throw error
+  } finally {
+    signal?.removeEventListener("abort", closePage)
+    closePage()
+    releaseSlot()
+  }
+}
+
+export function getBrowserPoolStats(): BrowserPoolStats {
+  return {
+    running: Boolean(state.browser?.connected),
+    openPages: state.openPages,
+    maxPages: BROWSER_MAX_PAGES,
+    waiting: state.waiting.length,
+    launches: state.stats.launches,
+    crashes: state.stats.crashes,
+    pagesOpened: state.stats.pagesOpened,
+    pageErrors: state.stats.pageErrors,
+    lastLaunchAt: state.stats.lastLaunchAt,
+    launchError: state.stats.launchError,
+    lastHealthCheckAt: state.lastHealthCheck ? new Date(state.lastHealthCheck).toISOString() : null,
+    lastError: state.stats.lastError,
+  }
+}
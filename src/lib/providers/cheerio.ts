@@ -0,0 +1,28 @@
+import { fetchChargerHtml } from "@/lib/providers/chrg-direct"
+import { isJavaScriptShell, parseBadgeHtml } from "@/lib/providers/parsers"
+import { ProviderError, toProviderError } from "@/lib/providers/errors"
+import type { StatusProvider } from "@/lib/providers/types"
+
+// Fetches the static page and parses the status badge with cheerio
+export const cheerioProvider: StatusProvider = {
+  name: "cheerio",
+  defaultTimeout: 15 * 1000,
+
+  async fetchStatus(charger, signal) {
+    const html = await fetchChargerHtml(charger.id, { withSession: true, signal }).catch((error) => {
+      throw toProviderError(error)
+    })
+
+    if (isJavaScriptShell(html)) {
+      throw new ProviderError("chrg.direct served the page that requires JavaScript rendering", "unavailable")
+    }
+
+    const parsed = parseBadgeHtml(html)
+    if (!parsed) {
+      throw new ProviderError("No status badge found in the page", "parse")
+    }
+
+    // Same badge as the rendered page, but the static HTML may lag behind
+    return { ...parsed, confidence: 0.8 }
+  },
+}
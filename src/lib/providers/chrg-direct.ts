@@ -0,0 +1,72 @@
+// Shared details of the chrg.direct charger pages
+// Point CHRG_DIRECT_URL at the mock upstream (npm run mock:chrg-direct) to scrape the fixture pages instead
+export const CHRG_DIRECT_URL = process.env.CHRG_DIRECT_URL?.replace(/\/+$/, "") || "https://www.chrg.direct"
+
+export const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
+
+export const BROWSER_HEADERS = {
+  "User-Agent": USER_AGENT,
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+}
+
+export const STATUS_BADGE_SELECTOR = ".badge.rounded-pill"
+
+export function chargerPageUrl(evseId: string) {
+  return `${CHRG_DIRECT_URL}/?evseId=${encodeURIComponent(evseId)}`
+}
+
+export class UpstreamError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = "UpstreamError"
+  }
+}
+
+// Fetch the static HTML of a charger page. With a session, a first request
+// picks up the cookies chrg.direct sets before the actual page is requested.
+export async function fetchChargerHtml(
+  evseId: string,
+  options: { withSession?: boolean; signal?: AbortSignal } = {},
+): Promise<string> {
+  const url = chargerPageUrl(evseId)
+  const headers: Record<string, string> = {
+    ...BROWSER_HEADERS,
+    "Cache-Control": "no-cache, no-store, must-revalidate",
+    Pragma: "no-cache",
+  }
+
+  if (options.withSession) {
+    const initialResponse = await fetch(url, {
+      cache: "no-store",
+      headers: BROWSER_HEADERS,
+      signal: options.signal,
+    })
+
+    if (!initialResponse.ok) {
+      throw new UpstreamError(`Failed to fetch initial page: ${initialResponse.statusText}`, initialResponse.status)
+    }
+
+    // Get any cookies from the initial response
+    const cookies = initialResponse.headers.get("set-cookie")
+    if (cookies) {
+      headers["Cookie"] = cookies
+    }
+    headers["Referer"] = url
+  }
+
+  // Add a random query parameter to prevent caching
+  const cacheBuster = Date.now()
+  const response = await fetch(`${url}&_=${cacheBuster}`, {
+    cache: "no-store",
+    headers,
+    signal: options.signal,
+  })
+
+  if (!response.ok) {
+    throw new UpstreamError(`Failed to fetch charger data: ${response.statusText}`, response.status)
+  }
+
+  return response.text()
+}
@@ -0,0 +1,29 @@
+import { UpstreamError } from "@/lib/providers/chrg-direct"
+
+export type ProviderErrorKind = "timeout" | "upstream" | "parse" | "unavailable"
+
+export class ProviderError extends Error {
+  constructor(message: string, public kind: ProviderErrorKind) {
+    super(message)
+    this.name = "ProviderError"
+  }
+}
+
+// Classify any error thrown while talking to chrg.direct
+export function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error
+  }
+  if (error instanceof UpstreamError) {
+    return new ProviderError(error.message, "upstream")
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return new ProviderError(message, "timeout")
+  }
+  // fetch() reports network failures as TypeError
+  if (error instanceof TypeError) {
+    return new ProviderError(message, "upstream")
+  }
+  return new ProviderError(message, "unavailable")
+}
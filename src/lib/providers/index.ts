@@ -0,0 +1,86 @@
+import type { ChargerInfo } from "@/lib/chargers"
+import { cheerioProvider } from "@/lib/providers/cheerio"
+import { recordScrape } from "@/lib/metrics"
+import { ProviderError, toProviderError, type ProviderErrorKind } from "@/lib/providers/errors"
+import { ocppProvider } from "@/lib/providers/ocpp"
+import { puppeteerProvider } from "@/lib/providers/puppeteer"
+import { regexProvider } from "@/lib/providers/regex"
+import type { ProviderConfig, ProviderName, ProviderResult, StatusProvider } from "@/lib/providers/types"
+import { statusLabel } from "@/lib/status"
+
+export const PROVIDERS: Record<ProviderName, StatusProvider> = {
+  ocpp: ocppProvider,
+  puppeteer: puppeteerProvider,
+  cheerio: cheerioProvider,
+  regex: regexProvider,
+}
+
+// Used for chargers without their own chain: most reliable first
+export const DEFAULT_PROVIDER_CHAIN: ProviderConfig[] = [{ name: "puppeteer" }, { name: "cheerio" }, { name: "regex" }]
+
+// Chargers that talk OCPP to us are asked directly before any scraping
+export function getProviderChain(charger: ChargerInfo): ProviderConfig[] {
+  if (charger.providers) {
+    return charger.providers
+  }
+  return charger.ocpp ? [{ name: "ocpp" }, ...DEFAULT_PROVIDER_CHAIN] : DEFAULT_PROVIDER_CHAIN
+}
+
+export interface ProviderAttempt {
+  provider: ProviderName;
+  durationMs: number;
+  error?: string;
+  errorKind?: ProviderErrorKind;
+}
+
+export interface ResolvedStatus extends ProviderResult {
+  // Provider that delivered the status, null if every provider failed
+  source: ProviderName | null;
+  attempts: ProviderAttempt[];
+}
+
+async function runWithTimeout(provider: StatusProvider, charger: ChargerInfo, timeoutMs: number): Promise<ProviderResult> {
+  const controller = new AbortController()
+  let timer: NodeJS.Timeout | undefined
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new ProviderError(`${provider.name} timed out after ${timeoutMs} ms`, "timeout"))
+    }, timeoutMs)
+  })
+
+  try {
+    return await Promise.race([provider.fetchStatus(charger, controller.signal), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Ask each provider of the chain in turn until one can tell the status
+export async function resolveStatus(charger: ChargerInfo): Promise<ResolvedStatus> {
+  const attempts: ProviderAttempt[] = []
+
+  for (const config of getProviderChain(charger)) {
+    const provider = PROVIDERS[config.name]
+    const startedAt = Date.now()
+    try {
+      const result = await runWithTimeout(provider, charger, config.timeoutMs ?? provider.defaultTimeout)
+      attempts.push({ provider: provider.name, durationMs: Date.now() - startedAt })
+      recordScrape(attempts[attempts.length - 1])
+      return { ...result, source: provider.name, attempts }
+    } catch (error: unknown) {
+      const providerError = toProviderError(error)
+      attempts.push({
+        provider: provider.name,
+        durationMs: Date.now() - startedAt,
+        error: providerError.message,
+        errorKind: providerError.kind,
+      })
+      recordScrape(attempts[attempts.length - 1])
+      console.warn(`Status provider ${provider.name} failed for ${charger.id}: ${providerError.message}`)
+    }
+  }
+
+  return { status: "unknown", statusText: statusLabel("unknown"), confidence: 0, source: null, attempts }
+}
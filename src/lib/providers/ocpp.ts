@@ -0,0 +1,29 @@
+import { getChargePoint, isOnline } from "@/lib/ocpp/central-system"
+import { mapChargePointStatus } from "@/lib/ocpp/messages"
+import { ProviderError } from "@/lib/providers/errors"
+import type { StatusProvider } from "@/lib/providers/types"
+
+// Reads the last StatusNotification the charger sent us over OCPP
+export const ocppProvider: StatusProvider = {
+  name: "ocpp",
+  defaultTimeout: 1000,
+
+  async fetchStatus(charger) {
+    if (!charger.ocpp) {
+      throw new ProviderError("Charger has no OCPP charge point configured", "unavailable")
+    }
+
+    const chargePoint = getChargePoint(charger.ocpp.chargePointId)
+    if (!chargePoint || !isOnline(chargePoint)) {
+      throw new ProviderError(`Charge point ${charger.ocpp.chargePointId} is offline`, "unavailable")
+    }
+
+    const connector = chargePoint.connectors[charger.ocpp.connectorId]
+    if (!connector) {
+      throw new ProviderError(`Connector ${charger.ocpp.connectorId} has not reported a status yet`, "unavailable")
+    }
+
+    // Reported by the charger itself, so nothing to second-guess
+    return { ...mapChargePointStatus(connector.status), confidence: 1 }
+  },
+}
@@ -0,0 +1,44 @@
+import { readdirSync, readFileSync } from "fs"
+import { join } from "path"
+import { describe, expect, it } from "vitest"
+import { isJavaScriptShell, parseBadgeHtml, parseStatusRegex } from "@/lib/providers/parsers"
+import type { ChargerStatus } from "@/lib/status"
+
+const FIXTURE_DIR = join(process.cwd(), "fixtures", "chrg-direct")
+
+interface Expectation {
+  shell: boolean;
+  // null where the page has no badge to find
+  badge: ChargerStatus | null;
+  regex: ChargerStatus;
+}
+
+// One row per fixture; a new fixture without a row fails the test below
+const EXPECTED: Record<string, Expectation> = {
+  "adhoc-payment-shell": { shell: true, badge: null, regex: "unknown" },
+  "available.de": { shell: false, badge: "available", regex: "available" },
+  "available.en": { shell: false, badge: "available", regex: "available" },
+  "charging.de": { shell: false, badge: "charging", regex: "charging" },
+  "charging.en": { shell: false, badge: "charging", regex: "charging" },
+  "error.de": { shell: false, badge: "error", regex: "error" },
+  "error.en": { shell: false, badge: "error", regex: "error" },
+  "maintenance.de": { shell: false, badge: "maintenance", regex: "maintenance" },
+  "maintenance.en": { shell: false, badge: "maintenance", regex: "maintenance" },
+}
+
+const fixtures = readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith(".html"))
+  .map((file) => [file.replace(/\.html$/, ""), readFileSync(join(FIXTURE_DIR, file), "utf8")] as const)
+
+describe("chrg.direct parsers", () => {
+  it("has an expectation for every fixture", () => {
+    expect(fixtures.map(([name]) => name).sort()).toEqual(Object.keys(EXPECTED).sort())
+  })
+
+  it.each(fixtures)("classifies %s", (name, html) => {
+    const expected = EXPECTED[name]
+    expect(isJavaScriptShell(html)).toBe(expected.shell)
+    expect(parseBadgeHtml(html)?.status ?? null).toBe(expected.badge)
+    expect(parseStatusRegex(html).status).toBe(expected.regex)
+  })
+})
@@ -0,0 +1,107 @@
+import { load } from "cheerio"
+import { STATUS_BADGE_SELECTOR } from "@/lib/providers/chrg-direct"
+import { statusLabel, type ChargerStatus } from "@/lib/status"
+
+export interface ParsedStatus {
+  status: ChargerStatus;
+  statusText: string;
+}
+
+// Map the text and CSS classes of a chrg.direct status badge to our status
+export function classifyBadge(text: string, className: string): ParsedStatus | null {
+  const status = classifyBadgeStatus(text.trim().toLowerCase(), className)
+  return status ? { status, statusText: statusLabel(status) } : null
+}
+
+function classifyBadgeStatus(lowerText: string, className: string): ChargerStatus | null {
+  if (className.includes("bg-success") || lowerText.includes("available") || lowerText.includes("verfügbar")) {
+    return "available"
+  } else if (className.includes("bg-warning") || lowerText.includes("maintenance") || lowerText.includes("wartung")) {
+    return "maintenance"
+  } else if (className.includes("bg-danger") || lowerText.includes("error") || lowerText.includes("fehler")) {
+    return "error"
+  } else if (className.includes("bg-secondary") || lowerText.includes("charging") || lowerText.includes("besetzt")) {
+    return "charging"
+  }
+  return null
+}
+
+// The page chrg.direct serves before its JavaScript has loaded the charger
+export function isJavaScriptShell(html: string) {
+  return html.includes("Adhoc Payment") && !html.includes("AUG. PRIEN")
+}
+
+// Find the status badge in static HTML; later badges win, as on the rendered page
+export function parseBadgeHtml(html: string): ParsedStatus | null {
+  const $ = load(html)
+  let result: ParsedStatus | null = null
+
+  $(STATUS_BADGE_SELECTOR).each((_, elem) => {
+    const badge = $(elem)
+    result = classifyBadge(badge.text(), badge.attr("class") || "") ?? result
+  })
+
+  return result
+}
+
+export interface RegexParseResult extends ParsedStatus {
+  // Whether an explicit "Status: ..." label was found rather than just keywords
+  matchedLabel: boolean;
+  labelText: string;
+  containsOccupied: boolean;
+  containsAvailable: boolean;
+  containsError: boolean;
+  containsMaintenance: boolean;
+}
+
+// Last resort: look for a "Status:" label, then for status keywords anywhere in the page
+export function parseStatusRegex(html: string): RegexParseResult {
+  let labelText = ""
+  let status: ChargerStatus = "unknown"
+
+  // Look for "Status:" followed by a word; the German pages spell it with umlauts
+  const statusMatch = html.match(/Status:\s*(\p{L}+)/iu)
+  if (statusMatch && statusMatch[1]) {
+    labelText = statusMatch[1].trim().toLowerCase()
+  }
+
+  // Determine status based on keywords
+  const htmlLower = html.toLowerCase()
+  const containsOccupied =
+    htmlLower.includes("occupied") || htmlLower.includes("besetzt") || htmlLower.includes("in use")
+  const containsAvailable =
+    htmlLower.includes("available") || htmlLower.includes("verfügbar") || htmlLower.includes("free")
+  const containsError = htmlLower.includes("error") || htmlLower.includes("fehler")
+  const containsMaintenance = htmlLower.includes("maintenance") || htmlLower.includes("wartung")
+
+  if (labelText) {
+    if (labelText.includes("occupied") || labelText.includes("charging") || labelText.includes("besetzt")) {
+      status = "charging"
+    } else if (labelText.includes("available") || labelText.includes("verfügbar")) {
+      status = "available"
+    } else if (labelText.includes("error") || labelText.includes("fehler")) {
+      status = "error"
+    } else if (labelText.includes("maintenance") || labelText.includes("wartung")) {
+      status = "maintenance"
+    }
+  } else if (containsOccupied) {
+    status = "charging"
+  } else if (containsAvailable) {
+    status = "available"
+  } else if (containsError) {
+    status = "error"
+  } else if (containsMaintenance) {
+    status = "maintenance"
+  }
+
+  return {
+    status,
+    statusText: statusLabel(status),
+    matchedLabel: Boolean(labelText),
+    labelText,
+    containsOccupied,
+    containsAvailable,
+    containsError,
+    containsMaintenance,
+  }
+}
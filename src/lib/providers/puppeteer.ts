@@ -0,0 +1,40 @@
+import { withPage } from '@/lib/providers/browser-pool';
+import { chargerPageUrl, STATUS_BADGE_SELECTOR, USER_AGENT } from '@/lib/providers/chrg-direct';
+import { classifyBadge } from '@/lib/providers/parsers';
+import { ProviderError } from '@/lib/providers/errors';
+import type { StatusProvider } from '@/lib/providers/types';
+
+// Renders the chrg.direct page in headless Chromium and reads its status badge
+export const puppeteerProvider: StatusProvider = {
+  name: 'puppeteer',
+  defaultTimeout: 45 * 1000,
+
+  async fetchStatus(charger, signal) {
+    // The pool closes the page even if navigation or the selector wait throws
+    const badge = await withPage(async (page) => {
+      // Set viewport and user agent
+      await page.setViewport({ width: 1280, height: 800 });
+      await page.setUserAgent(USER_AGENT);
+
+      // Navigate to the page and wait for content to load
+      await page.goto(chargerPageUrl(charger.id), { waitUntil: 'networkidle0', timeout: 30000 });
+
+      // Wait for status badge to appear
+      await page.waitForSelector(STATUS_BADGE_SELECTOR, { timeout: 10000 });
+
+      // Read the badge in the page, classify it here
+      return page.evaluate((selector: string) => {
+        const element = document.querySelector(selector);
+        return element ? { text: element.textContent || '', className: element.className } : null;
+      }, STATUS_BADGE_SELECTOR);
+    }, signal);
+
+    const parsed = badge && classifyBadge(badge.text, badge.className);
+    if (!parsed) {
+      throw new ProviderError('Status badge could not be classified', 'parse');
+    }
+
+    // The rendered badge is exactly what a visitor of chrg.direct sees
+    return { ...parsed, confidence: 0.95 };
+  }
+};
@@ -0,0 +1,28 @@
+import { fetchChargerHtml } from "@/lib/providers/chrg-direct"
+import { parseStatusRegex } from "@/lib/providers/parsers"
+import { ProviderError, toProviderError } from "@/lib/providers/errors"
+import type { StatusProvider } from "@/lib/providers/types"
+
+// Matches status labels and keywords in the raw HTML
+export const regexProvider: StatusProvider = {
+  name: "regex",
+  defaultTimeout: 10 * 1000,
+
+  async fetchStatus(charger, signal) {
+    const html = await fetchChargerHtml(charger.id, { signal }).catch((error) => {
+      throw toProviderError(error)
+    })
+
+    const parsed = parseStatusRegex(html)
+    if (parsed.status === "unknown") {
+      throw new ProviderError("No status label or keyword found in the page", "parse")
+    }
+
+    // A keyword anywhere in the page is a much weaker signal than a label
+    return {
+      status: parsed.status,
+      statusText: parsed.statusText,
+      confidence: parsed.matchedLabel ? 0.6 : 0.3,
+    }
+  },
+}
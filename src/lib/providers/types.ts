@@ -0,0 +1,27 @@
+import type { ChargerInfo } from "@/lib/chargers"
+import type { ChargerStatus } from "@/lib/status"
+
+export const PROVIDER_NAMES = ["ocpp", "puppeteer", "cheerio", "regex"] as const
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number]
+
+// One step of a charger's fallback chain
+export interface ProviderConfig {
+  name: ProviderName;
+  // Overrides the provider's default timeout
+  timeoutMs?: number;
+}
+
+export interface ProviderResult {
+  status: ChargerStatus;
+  statusText: string;
+  // How much we trust the result, from 0 (guess) to 1 (certain)
+  confidence: number;
+}
+
+export interface StatusProvider {
+  name: ProviderName;
+  defaultTimeout: number;
+  // Must reject rather than resolve with "unknown" when it cannot tell
+  fetchStatus(charger: ChargerInfo, signal: AbortSignal): Promise<ProviderResult>;
+}
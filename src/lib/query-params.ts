@@ -0,0 +1,13 @@
+// Parse an optional ISO date query parameter; null means it was present but invalid
+export function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Parse an optional non-negative integer query parameter; null means invalid
+export function parseIntParam(value: string | null): number | undefined | null {
+  if (!value) return undefined
+  const number = Number(value)
+  return Number.isInteger(number) && number >= 0 ? number : null
+}
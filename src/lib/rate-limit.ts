@@ -0,0 +1,59 @@
+import type { SessionUser } from "@/lib/auth/roles"
+import { singleton } from "@/lib/singleton"
+
+// Keys are swept once there are this many, so one-off clients do not pile up
+const SWEEP_THRESHOLD = 10000
+
+export interface RateLimit {
+  // Requests allowed per window
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the next request would be allowed, 0 if it is now
+  retryAfterSeconds: number;
+}
+
+// Sliding window: the times of the requests allowed during the last window, per key
+export function createRateLimiter(name: string, { limit, windowMs }: RateLimit) {
+  const hits = singleton(`rateLimit:${name}`, () => new Map<string, number[]>())
+
+  const sweep = (now: number) => {
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key)
+    }
+  }
+
+  // Count a request for key, unless it is over the limit
+  return function check(key: string): RateLimitResult {
+    const now = Date.now()
+    if (hits.size >= SWEEP_THRESHOLD) sweep(now)
+
+    const times = (hits.get(key) ?? []).filter((time) => time > now - windowMs)
+    if (times.length >= limit) {
+      hits.set(key, times)
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((times[0] + windowMs - now) / 1000) }
+    }
+
+    times.push(now)
+    hits.set(key, times)
+    return { allowed: true, remaining: limit - times.length, retryAfterSeconds: 0 }
+  }
+}
+
+// Forwarding headers can be set by anyone, so they only count behind a reverse proxy that sets them
+const TRUST_PROXY = process.env.TRUST_PROXY === "true"
+
+// Signed-in users are limited by name, so colleagues behind one office address do not share a limit.
+// Everyone else by the address the trusted proxy added last to X-Forwarded-For. Without one, the
+// server cannot tell visitors apart, so they share a single limit.
+export function clientKey(request: Request, user: SessionUser | null) {
+  if (user) return `user:${user.username}`
+  if (!TRUST_PROXY) return "anonymous"
+  const forwarded = (request.headers.get("x-forwarded-for") || "").split(",")
+  const address = forwarded[forwarded.length - 1].trim() || request.headers.get("x-real-ip")
+  return address ? `ip:${address}` : "anonymous"
+}
@@ -0,0 +1,99 @@
+import { getActiveCharger, listChargers } from "@/lib/chargers"
+import { refreshChargerStatus } from "@/lib/charger-status"
+import { singleton } from "@/lib/singleton"
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name])
+  return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback
+}
+
+export const POLL_INTERVAL = numberFromEnv("POLL_INTERVAL_MS", 60 * 1000)
+// Each cycle starts up to this much earlier or later, so we do not hit chrg.direct on a fixed beat
+export const POLL_JITTER = numberFromEnv("POLL_JITTER_MS", 5 * 1000)
+// Maximum number of chargers scraped at the same time
+export const POLL_CONCURRENCY = Math.max(1, numberFromEnv("POLL_CONCURRENCY", 2))
+
+const state = singleton("scheduler", () => ({
+  started: false,
+  timer: null as NodeJS.Timeout | null,
+  // evseIds waiting for a refresh, in order
+  queue: [] as string[],
+  active: new Set<string>(),
+  lastCycleAt: null as string | null,
+}))
+
+async function refresh(evseId: string) {
+  try {
+    const charger = await getActiveCharger(evseId)
+    // Retired between being queued and now
+    if (charger) {
+      await refreshChargerStatus(charger)
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error refreshing charger ${evseId}: ${errorMessage}`)
+  }
+}
+
+// Start queued refreshes until the concurrency cap is reached
+function pump() {
+  while (state.active.size < POLL_CONCURRENCY && state.queue.length > 0) {
+    const evseId = state.queue.shift()!
+    state.active.add(evseId)
+    refresh(evseId).finally(() => {
+      state.active.delete(evseId)
+      pump()
+    })
+  }
+}
+
+// Ask for a charger to be refreshed as soon as a slot is free
+export function requestRefresh(evseId: string) {
+  if (!state.queue.includes(evseId)) {
+    state.queue.push(evseId)
+  }
+  pump()
+}
+
+async function runCycle() {
+  try {
+    state.lastCycleAt = new Date().toISOString()
+    for (const charger of await listChargers()) {
+      requestRefresh(charger.id)
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error starting refresh cycle: ${errorMessage}`)
+  } finally {
+    scheduleNextCycle()
+  }
+}
+
+function scheduleNextCycle() {
+  if (!state.started) return
+  const jitter = (Math.random() * 2 - 1) * POLL_JITTER
+  state.timer = setTimeout(runCycle, Math.max(0, POLL_INTERVAL + jitter))
+}
+
+export function startScheduler() {
+  if (state.started) return
+  state.started = true
+  runCycle()
+}
+
+export function stopScheduler() {
+  state.started = false
+  if (state.timer) {
+    clearTimeout(state.timer)
+    state.timer = null
+  }
+}
+
+export function getSchedulerState() {
+  return {
+    started: state.started,
+    lastCycleAt: state.lastCycleAt,
+    queued: [...state.queue],
+    active: [...state.active],
+  }
+}
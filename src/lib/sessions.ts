@@ -0,0 +1,153 @@
+import { DEFAULT_PAGE_SIZE, getObservations, MAX_PAGE_SIZE, type StatusObservation } from "@/lib/history"
+import { isInUse, type ChargerStatus } from "@/lib/status"
+import { buildTimeline } from "@/lib/timeline"
+
+// Sessions that began this long before the query window are still found whole
+const LOOKBACK = 24 * 60 * 60 * 1000
+
+// Nothing was observed in these; a session may continue through them
+const GAP_STATUSES: readonly ChargerStatus[] = ["unknown", "offline"]
+
+// One use of a charger, from the first to the last in-use status (preparing, charging, finishing)
+export interface ChargingSession {
+  // Stable across requests: charger and start time
+  id: string;
+  evseId: string;
+  start: string;
+  // Null while the charger is still in use
+  end: string | null;
+  // Until now for a running session
+  durationMinutes: number;
+  // Time within the session without observations, bridged because the charger was in use on both sides
+  gapMinutes: number;
+  // Start or end fell into a gap or the edge of the history, so the real session may be longer
+  estimated: boolean;
+}
+
+export interface SessionQuery {
+  evseId?: string;
+  // Only these chargers, e.g. those of one site
+  evseIds?: string[];
+  // Sessions overlapping this window
+  from?: Date;
+  to?: Date;
+  // Only the newest this many per charger, e.g. for the dashboard cards
+  perCharger?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SessionPage {
+  items: ChargingSession[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+function minutesBetween(from: string, to: string) {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000)
+}
+
+// Sessions of one charger from its observations (oldest first) between from and to, oldest first.
+// A session still in use at `to` is reported as running.
+export function deriveSessions(evseId: string, observations: StatusObservation[], from: Date, to: Date): ChargingSession[] {
+  const segments = buildTimeline(observations, from, to)
+  const sessions: ChargingSession[] = []
+  let current: { start: string; startEstimated: boolean; lastInUse: string; gapMinutes: number; pendingGap: number } | null = null
+
+  const close = (end: string | null, endEstimated: boolean) => {
+    if (!current) return
+    sessions.push({
+      id: `${evseId}@${current.start}`,
+      evseId,
+      start: current.start,
+      end,
+      durationMinutes: minutesBetween(current.start, end ?? to.toISOString()),
+      gapMinutes: current.gapMinutes,
+      estimated: current.startEstimated || endEstimated,
+    })
+    current = null
+  }
+
+  for (const [index, segment] of segments.entries()) {
+    if (isInUse(segment.status)) {
+      if (!current) {
+        const previous = segments[index - 1]
+        current = {
+          start: segment.from,
+          startEstimated: !previous || GAP_STATUSES.includes(previous.status),
+          lastInUse: segment.to,
+          gapMinutes: 0,
+          pendingGap: 0,
+        }
+      } else {
+        current.gapMinutes += current.pendingGap
+        current.pendingGap = 0
+        current.lastInUse = segment.to
+      }
+    } else if (GAP_STATUSES.includes(segment.status)) {
+      if (current) current.pendingGap += minutesBetween(segment.from, segment.to)
+    } else if (current) {
+      // Ended somewhere in the gap before this status, if there was one
+      close(current.pendingGap > 0 ? current.lastInUse : segment.from, current.pendingGap > 0)
+    }
+  }
+
+  // Still in use at `to`, unless the charger went quiet before
+  if (current) {
+    close(current.pendingGap > 0 ? current.lastInUse : null, current.pendingGap > 0)
+  }
+
+  return sessions
+}
+
+// All sessions overlapping the window, newest first
+export async function listSessions(query: Omit<SessionQuery, "limit" | "offset"> = {}): Promise<ChargingSession[]> {
+  const now = new Date()
+  const fromTime = query.from?.getTime() ?? -Infinity
+  const toTime = query.to?.getTime() ?? Infinity
+
+  // Read up to now, so a session running past `to` is not cut off there
+  const readFrom = query.from ? new Date(query.from.getTime() - LOOKBACK) : undefined
+  const observations = await getObservations({ evseId: query.evseId, evseIds: query.evseIds, from: readFrom })
+
+  const byCharger = new Map<string, StatusObservation[]>()
+  for (const observation of observations) {
+    const list = byCharger.get(observation.evseId)
+    if (list) {
+      list.push(observation)
+    } else {
+      byCharger.set(observation.evseId, [observation])
+    }
+  }
+
+  return [...byCharger.entries()]
+    .flatMap(([evseId, chargerObservations]) => {
+      const first = new Date(chargerObservations[0].timestamp)
+      const sessions = deriveSessions(evseId, chargerObservations, readFrom ?? first, now).filter((session) => {
+        const end = session.end ? new Date(session.end).getTime() : now.getTime()
+        return new Date(session.start).getTime() <= toTime && end >= fromTime
+      })
+      // Derived oldest first, so the newest are at the end
+      if (query.perCharger === undefined) return sessions
+      return query.perCharger > 0 ? sessions.slice(-query.perCharger) : []
+    })
+    .sort((a, b) => new Date(b.start).getTime() - new Date(a.start).getTime())
+}
+
+// One page of sessions overlapping the window, newest first
+export async function querySessions(query: SessionQuery = {}): Promise<SessionPage> {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(query.offset ?? 0, 0)
+
+  const matches = await listSessions(query)
+  const items = matches.slice(offset, offset + limit)
+  return {
+    items,
+    total: matches.length,
+    limit,
+    offset,
+    nextOffset: offset + items.length < matches.length ? offset + items.length : null,
+  }
+}
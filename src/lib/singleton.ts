@@ -0,0 +1,14 @@
+// Next.js bundles every route separately and reloads modules in dev, so plain
+// module-level state is not shared between routes. Keep shared server state
+// on globalThis instead.
+const globalStore = globalThis as unknown as { __prienCharger?: Record<string, unknown> }
+
+export function singleton<T>(key: string, create: () => T): T {
+  if (!globalStore.__prienCharger) {
+    globalStore.__prienCharger = {}
+  }
+  if (!(key in globalStore.__prienCharger)) {
+    globalStore.__prienCharger[key] = create()
+  }
+  return globalStore.__prienCharger[key] as T
+}
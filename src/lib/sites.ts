@@ -0,0 +1,182 @@
+import { singleton } from "@/lib/singleton"
+import { readJsonFile, writeJsonFile } from "@/lib/storage"
+
+const SITES_FILE = "sites.json"
+
+// Chargers registered before sites existed belong here
+export const DEFAULT_SITE_ID = "prien"
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// A car park with chargers: the headquarters or one of the depots
+export interface Site {
+  id: string;
+  name: string;
+  address: string;
+  coordinates?: Coordinates;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields an admin may set when creating or editing a site
+export type SiteInput = Pick<Site, "id" | "name" | "address" | "coordinates">
+
+const SEED_SITES: SiteInput[] = [
+  {
+    id: DEFAULT_SITE_ID,
+    name: "Firmenparkplatz Prien",
+    address: "Prien am Chiemsee, 83209",
+    coordinates: { latitude: 47.856, longitude: 12.3453 },
+  },
+]
+
+// Used in URLs such as /sites/prien; short enough for an OCPI location id
+export const SITE_ID_PATTERN = /^[a-z0-9-]{2,32}$/
+
+export class SiteError extends Error {
+  constructor(message: string, public status: number, public details: string[] = []) {
+    super(message)
+    this.name = "SiteError"
+  }
+}
+
+export function validateCoordinates(value: unknown, errors: string[]): Coordinates | undefined {
+  const coordinates = value as Partial<Coordinates> | null
+  const { latitude, longitude } = coordinates ?? {}
+  if (typeof latitude !== "number" || latitude < -90 || latitude > 90) {
+    errors.push("coordinates.latitude must be a number between -90 and 90")
+  } else if (typeof longitude !== "number" || longitude < -180 || longitude > 180) {
+    errors.push("coordinates.longitude must be a number between -180 and 180")
+  } else {
+    return { latitude, longitude }
+  }
+  return undefined
+}
+
+const state = singleton("siteRegistry", () => ({
+  sites: null as Record<string, Site> | null,
+  // Serialises writes so concurrent admin requests cannot overwrite each other
+  queue: Promise.resolve() as Promise<unknown>,
+}))
+
+async function load(): Promise<Record<string, Site>> {
+  if (!state.sites) {
+    const stored = await readJsonFile<Record<string, Site> | null>(SITES_FILE, null)
+    if (stored) {
+      state.sites = stored
+    } else {
+      const now = new Date().toISOString()
+      state.sites = Object.fromEntries(SEED_SITES.map((site) => [site.id, { ...site, createdAt: now, updatedAt: now }]))
+    }
+  }
+  return state.sites
+}
+
+function mutate<T>(change: (sites: Record<string, Site>) => T): Promise<T> {
+  const run = state.queue.then(async () => {
+    // Changed on a copy that only replaces the one in memory once it is on disk
+    const sites = structuredClone(await load())
+    const result = change(sites)
+    await writeJsonFile(SITES_FILE, sites)
+    state.sites = sites
+    return result
+  })
+  state.queue = run.catch(() => undefined)
+  return run
+}
+
+// Validate a create (partial = false) or edit (partial = true) payload
+function validateSiteInput(input: unknown, partial: boolean): Partial<SiteInput> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new SiteError("Request body must be a JSON object", 400)
+  }
+
+  const data = input as Record<string, unknown>
+  const errors: string[] = []
+  const result: Partial<SiteInput> = {}
+
+  if (!partial) {
+    if (typeof data.id !== "string" || !SITE_ID_PATTERN.test(data.id)) {
+      errors.push("id must be 2-32 lowercase letters, digits or -")
+    } else {
+      result.id = data.id
+    }
+  } else if (data.id !== undefined) {
+    errors.push("id cannot be changed")
+  }
+
+  for (const field of ["name", "address"] as const) {
+    const value = data[field]
+    if (value === undefined && partial) continue
+    if (typeof value !== "string" || !value.trim() || value.length > 200) {
+      errors.push(`${field} must be a non-empty string of at most 200 characters`)
+    } else {
+      result[field] = value.trim()
+    }
+  }
+
+  if (data.coordinates !== undefined) {
+    result.coordinates = validateCoordinates(data.coordinates, errors)
+  }
+
+  if (errors.length > 0) {
+    throw new SiteError("Invalid site data", 400, errors)
+  }
+
+  return result
+}
+
+export async function listSites(): Promise<Site[]> {
+  return Object.values(await load()).sort((a, b) => a.name.localeCompare(b.name, "de"))
+}
+
+export async function getSite(siteId: string): Promise<Site | undefined> {
+  return (await load())[siteId]
+}
+
+// Ids among the given ones that name no site
+export async function findUnknownSites(siteIds: string[]): Promise<string[]> {
+  const sites = await load()
+  return siteIds.filter((siteId) => !sites[siteId])
+}
+
+export function createSite(input: unknown): Promise<Site> {
+  const data = validateSiteInput(input, false) as SiteInput
+  return mutate((sites) => {
+    if (sites[data.id]) {
+      throw new SiteError(`Site ${data.id} already exists`, 409)
+    }
+    const now = new Date().toISOString()
+    const site: Site = { ...data, createdAt: now, updatedAt: now }
+    sites[site.id] = site
+    return site
+  })
+}
+
+export function updateSite(siteId: string, input: unknown): Promise<Site> {
+  const data = validateSiteInput(input, true)
+  return mutate((sites) => {
+    const existing = sites[siteId]
+    if (!existing) {
+      throw new SiteError(`No site found with id ${siteId}`, 404)
+    }
+    const site = { ...existing, ...data, updatedAt: new Date().toISOString() }
+    sites[siteId] = site
+    return site
+  })
+}
+
+// Callers make sure no charger refers to the site any more
+export function deleteSite(siteId: string): Promise<Site> {
+  return mutate((sites) => {
+    const existing = sites[siteId]
+    if (!existing) {
+      throw new SiteError(`No site found with id ${siteId}`, 404)
+    }
+    delete sites[siteId]
+    return existing
+  })
+}
@@ -0,0 +1,38 @@
+import { EventEmitter } from "events"
+import type { ChargerStatusData } from "@/lib/charger-status"
+import { singleton } from "@/lib/singleton"
+
+type StatusListener = (data: ChargerStatusData) => void
+type StatusChangeListener = (data: ChargerStatusData, previous: ChargerStatusData | undefined) => void
+
+const emitter = singleton("statusEvents", () => {
+  const emitter = new EventEmitter()
+  // Every connected dashboard adds a listener
+  emitter.setMaxListeners(0)
+  return emitter
+})
+
+// Notify subscribers of a fresh result, and of a transition if the status changed
+export function publishStatus(data: ChargerStatusData, previous: ChargerStatusData | undefined) {
+  emitter.emit("update", data)
+
+  if (!previous || previous.status !== data.status) {
+    emitter.emit("change", data, previous)
+  }
+}
+
+// Called for every fresh result, changed or not
+export function subscribe(listener: StatusListener): () => void {
+  emitter.on("update", listener)
+  return () => {
+    emitter.off("update", listener)
+  }
+}
+
+// Called only when the status of a charger differs from the previous result
+export function onStatusChange(listener: StatusChangeListener): () => void {
+  emitter.on("change", listener)
+  return () => {
+    emitter.off("change", listener)
+  }
+}
@@ -0,0 +1,54 @@
+// Shared by server and client: no Node.js or UI imports here; icons and colours are in
+// @/components/status-presentation
+import { DEFAULT_LOCALE, translate, type Locale } from "@/lib/i18n"
+
+export const CHARGER_STATUSES = [
+  "available",
+  "preparing",
+  "charging",
+  "finishing",
+  "reserved",
+  "maintenance",
+  "error",
+  "offline",
+  "unknown",
+] as const
+
+export type ChargerStatus = (typeof CHARGER_STATUSES)[number]
+
+export function isChargerStatus(value: unknown): value is ChargerStatus {
+  return CHARGER_STATUSES.includes(value as ChargerStatus)
+}
+
+// A car is plugged in: preparing, charging or finishing
+export function isInUse(status: ChargerStatus) {
+  return status === "preparing" || status === "charging" || status === "finishing"
+}
+
+// Where a charger can go from each status. Faults, maintenance and losing
+// the connection can happen at any time; everything else follows a session.
+const TRANSITIONS: Record<ChargerStatus, readonly ChargerStatus[]> = {
+  available: ["preparing", "charging", "reserved"],
+  preparing: ["charging", "available"],
+  charging: ["finishing", "available"],
+  finishing: ["available"],
+  reserved: ["preparing", "charging", "available"],
+  maintenance: ["available"],
+  error: ["available"],
+  offline: ["available", "preparing", "charging", "finishing", "reserved"],
+  unknown: ["available", "preparing", "charging", "finishing", "reserved"],
+}
+
+const ALWAYS_REACHABLE: readonly ChargerStatus[] = ["maintenance", "error", "offline", "unknown"]
+
+export function canTransition(from: ChargerStatus, to: ChargerStatus) {
+  return from === to || ALWAYS_REACHABLE.includes(to) || TRANSITIONS[from].includes(to)
+}
+
+export function allowedTransitions(from: ChargerStatus): ChargerStatus[] {
+  return CHARGER_STATUSES.filter((to) => to !== from && canTransition(from, to))
+}
+
+export function statusLabel(status: string, locale: Locale = DEFAULT_LOCALE) {
+  return translate(locale, `status.${isChargerStatus(status) ? status : "unknown"}`)
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { createInterface } from "readline"
+
+// All persisted app state lives below DATA_DIR (defaults to ./data)
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "data")
+
+export function dataPath(fileName: string) {
+  return path.join(DATA_DIR, fileName)
+}
+
+// Read a JSON file, falling back to the given value if it does not exist yet
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(dataPath(fileName), "utf8")
+    return JSON.parse(content) as T
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback
+    }
+    throw error
+  }
+}
+
+// Write via a temp file and rename so readers never see a half-written file
+export async function writeJsonFile(fileName: string, data: unknown) {
+  const filePath = dataPath(fileName)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+  await fs.rename(tempPath, filePath)
+}
+
+// Append a single record to a JSON Lines file
+export async function appendJsonLine(fileName: string, record: unknown) {
+  const filePath = dataPath(fileName)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.appendFile(filePath, `${JSON.stringify(record)}\n`, "utf8")
+}
+
+// Read every record of a JSON Lines file, skipping lines that fail to parse
+export async function readJsonLines<T>(fileName: string): Promise<T[]> {
+  let content: string
+  try {
+    content = await fs.readFile(dataPath(fileName), "utf8")
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+
+  const records: T[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      records.push(JSON.parse(line) as T)
+    } catch {
+      console.warn(`Skipping corrupt line in ${fileName}`)
+    }
+  }
+  return records
+}
+
+// Like readJsonLines, but yields one record at a time instead of holding the whole file in memory
+export async function* streamJsonLines<T>(fileName: string): AsyncGenerator<T> {
+  let handle: fs.FileHandle
+  try {
+    handle = await fs.open(dataPath(fileName), "r")
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return
+    }
+    throw error
+  }
+
+  const input = handle.createReadStream({ encoding: "utf8" })
+  const lines = createInterface({ input, crlfDelay: Infinity })
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue
+      try {
+        yield JSON.parse(line) as T
+      } catch {
+        console.warn(`Skipping corrupt line in ${fileName}`)
+      }
+    }
+  } finally {
+    // Also closes the file when the caller stops early
+    input.destroy()
+  }
+}
+
+// Names of the files directly below DATA_DIR
+export async function listDataFiles(): Promise<string[]> {
+  try {
+    return await fs.readdir(dataPath(""))
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+}
+
+// When a file below DATA_DIR was last written, null if it does not exist
+export async function dataFileModifiedAt(fileName: string): Promise<Date | null> {
+  try {
+    return (await fs.stat(dataPath(fileName))).mtime
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null
+    }
+    throw error
+  }
+}
+
+export async function removeDataFile(fileName: string) {
+  await fs.rm(dataPath(fileName), { force: true })
+}
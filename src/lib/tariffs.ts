@@ -0,0 +1,191 @@
+// Shared by server and client: no Node.js imports here
+
+// Fee for occupying a charger after charging, as many operators charge it
+export interface BlockingFee {
+  pricePerMinute: number;
+  // Minutes of connection time that are free of the fee
+  graceMinutes: number;
+  // Upper bound of the fee per session
+  maxFee?: number;
+}
+
+// What charging costs, gross, in one currency
+export interface Tariff {
+  // ISO 4217 code, e.g. EUR
+  currency: string;
+  // Per kWh
+  energyPrice: number;
+  // Per hour of connection time
+  timePrice?: number;
+  blockingFee?: BlockingFee;
+  // ISO 8601 dates; open-ended when unset
+  validFrom?: string;
+  validUntil?: string;
+}
+
+export interface CostEstimate {
+  currency: string;
+  energy: number;
+  time: number;
+  blocking: number;
+  total: number;
+  // Connection time the time-based fees were computed for
+  minutes: number;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { "€": "EUR", $: "USD", "£": "GBP" }
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
+// "0,49 €/kWh", "EUR 0.10/min", "Blockiergebühr 0,10 €/min ab 240 min (max. 12 €)"
+const AMOUNT = String.raw`(?:(€|\$|£|[A-Z]{3})\s*)?(\d+(?:[.,]\d+)?)\s*(€|\$|£|[A-Z]{3})?`
+const PRICE_PATTERN = new RegExp(`${AMOUNT}\\s*/\\s*(kWh|min|Min\\.?|h|Std\\.?)`)
+const GRACE_PATTERN = /(?:ab|nach|after)\s+(\d+)\s*(min|h|Std)/i
+const MAX_PATTERN = new RegExp(`(?:max\\.?|maximal|höchstens|at most)\\s*${AMOUNT}`, "i")
+const BLOCKING_PATTERN = /blockier|standgebühr|blocking|idle|parking/i
+
+function toNumber(value: string) {
+  return Number(value.replace(",", "."))
+}
+
+function toCurrency(symbol: string | undefined) {
+  return symbol ? CURRENCY_SYMBOLS[symbol] ?? symbol : undefined
+}
+
+// Read a display price such as "0,49 €/kWh" into a tariff; parts may be joined with "+" or ";".
+// Returns null if no energy price can be found.
+export function parseTariff(text: string): Tariff | null {
+  let tariff: Partial<Tariff> = {}
+
+  for (const part of text.split(/\s*[+;]\s*|\s+zzgl\.\s+|\s+plus\s+/i)) {
+    const match = part.match(PRICE_PATTERN)
+    if (!match) continue
+
+    const [, before, amount, after, unit] = match
+    const currency = toCurrency(before ?? after)
+    if (currency) {
+      if (tariff.currency && tariff.currency !== currency) return null
+      tariff = { ...tariff, currency }
+    }
+
+    const price = toNumber(amount)
+    const perMinute = /^min/i.test(unit)
+    if (BLOCKING_PATTERN.test(part)) {
+      const grace = part.match(GRACE_PATTERN)
+      const max = part.match(MAX_PATTERN)
+      tariff.blockingFee = {
+        pricePerMinute: perMinute ? price : price / 60,
+        graceMinutes: grace ? toNumber(grace[1]) * (/^min/i.test(grace[2]) ? 1 : 60) : 0,
+        ...(max ? { maxFee: toNumber(max[2]) } : {}),
+      }
+    } else if (/^kWh$/i.test(unit)) {
+      tariff.energyPrice = price
+    } else {
+      tariff.timePrice = perMinute ? price * 60 : price
+    }
+  }
+
+  if (tariff.energyPrice === undefined) return null
+  return { ...tariff, currency: tariff.currency ?? "EUR", energyPrice: tariff.energyPrice }
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+}
+
+function isDate(value: unknown) {
+  return typeof value === "string" && !isNaN(new Date(value).getTime())
+}
+
+// Validate a tariff from an admin request; errors are collected like other charger fields
+export function validateTariff(value: unknown, errors: string[]): Tariff | undefined {
+  const tariff = value as Partial<Tariff> | null
+  const before = errors.length
+
+  if (typeof tariff?.currency !== "string" || !CURRENCY_PATTERN.test(tariff.currency)) {
+    errors.push("tariff.currency must be an ISO 4217 code such as EUR")
+  }
+  if (!isPrice(tariff?.energyPrice)) {
+    errors.push("tariff.energyPrice must be a non-negative number")
+  }
+  if (tariff?.timePrice !== undefined && !isPrice(tariff.timePrice)) {
+    errors.push("tariff.timePrice must be a non-negative number")
+  }
+  const blocking = tariff?.blockingFee
+  if (
+    blocking !== undefined &&
+    (!isPrice(blocking?.pricePerMinute) ||
+      !isPrice(blocking.graceMinutes) ||
+      (blocking.maxFee !== undefined && !isPrice(blocking.maxFee)))
+  ) {
+    errors.push("tariff.blockingFee needs non-negative pricePerMinute, graceMinutes and optional maxFee")
+  }
+  for (const field of ["validFrom", "validUntil"] as const) {
+    if (tariff?.[field] !== undefined && !isDate(tariff[field])) {
+      errors.push(`tariff.${field} must be an ISO 8601 date`)
+    }
+  }
+  if (errors.length > before || !tariff) return undefined
+
+  if (tariff.validFrom && tariff.validUntil && new Date(tariff.validFrom) >= new Date(tariff.validUntil)) {
+    errors.push("tariff.validFrom must be before tariff.validUntil")
+    return undefined
+  }
+
+  return {
+    currency: tariff.currency!,
+    energyPrice: tariff.energyPrice!,
+    ...(tariff.timePrice !== undefined ? { timePrice: tariff.timePrice } : {}),
+    ...(blocking ? { blockingFee: blocking as BlockingFee } : {}),
+    ...(tariff.validFrom ? { validFrom: tariff.validFrom } : {}),
+    ...(tariff.validUntil ? { validUntil: tariff.validUntil } : {}),
+  }
+}
+
+export function isTariffValid(tariff: Tariff, at: Date = new Date()) {
+  const time = at.getTime()
+  return (
+    (!tariff.validFrom || new Date(tariff.validFrom).getTime() <= time) &&
+    (!tariff.validUntil || time < new Date(tariff.validUntil).getTime())
+  )
+}
+
+// Rated power in kW from a display string such as "22 kW"
+export function parsePower(text: string | undefined): number | null {
+  const match = text?.match(/(\d+(?:[.,]\d+)?)\s*kW\b/i)
+  const power = match ? toNumber(match[1]) : NaN
+  return power > 0 ? power : null
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+// Estimated cost of charging energyKwh; without durationMinutes the charger is assumed to
+// deliver its full power, so time-based fees are a lower bound. Null outside the tariff's validity.
+export function estimateCost(
+  tariff: Tariff,
+  options: { energyKwh: number; powerKw?: number | null; durationMinutes?: number; at?: Date },
+): CostEstimate | null {
+  if (!isTariffValid(tariff, options.at)) return null
+
+  const minutes =
+    options.durationMinutes ?? (options.powerKw ? (options.energyKwh / options.powerKw) * 60 : 0)
+  const energy = options.energyKwh * tariff.energyPrice
+  const time = tariff.timePrice ? (minutes / 60) * tariff.timePrice : 0
+
+  let blocking = 0
+  if (tariff.blockingFee) {
+    const { pricePerMinute, graceMinutes, maxFee } = tariff.blockingFee
+    blocking = Math.max(0, minutes - graceMinutes) * pricePerMinute
+    if (maxFee !== undefined) blocking = Math.min(blocking, maxFee)
+  }
+
+  return {
+    currency: tariff.currency,
+    energy: round(energy),
+    time: round(time),
+    blocking: round(blocking),
+    total: round(energy + time + blocking),
+    minutes: Math.round(minutes),
+  }
+}
@@ -0,0 +1,48 @@
+import type { StatusObservation } from "@/lib/history"
+import type { ChargerStatus } from "@/lib/status"
+
+// An observation stands for at most this long; longer gaps (server down,
+// charger not polled) show up as unknown instead of stretching the last status
+export const MAX_OBSERVATION_GAP = 15 * 60 * 1000
+
+// A stretch of time in which a charger kept one status
+export interface StatusSegment {
+  status: ChargerStatus;
+  from: string;
+  to: string;
+  // Readings that make up this segment, 0 for gaps
+  observations: number;
+}
+
+// Merge consecutive observations of one charger (oldest first) into segments between from and to
+export function buildTimeline(observations: StatusObservation[], from: Date, to: Date): StatusSegment[] {
+  const segments: StatusSegment[] = []
+  const end = to.getTime()
+
+  const append = (status: ChargerStatus, start: number, stop: number, count: number) => {
+    if (stop <= start) return
+    const last = segments[segments.length - 1]
+    if (last && last.status === status && new Date(last.to).getTime() === start) {
+      last.to = new Date(stop).toISOString()
+      last.observations += count
+    } else {
+      segments.push({ status, from: new Date(start).toISOString(), to: new Date(stop).toISOString(), observations: count })
+    }
+  }
+
+  let cursor = from.getTime()
+  observations.forEach((observation, index) => {
+    const time = new Date(observation.timestamp).getTime()
+    if (isNaN(time) || time < cursor || time > end) return
+
+    append("unknown", cursor, time, 0)
+    const next = observations[index + 1]
+    const nextTime = next ? new Date(next.timestamp).getTime() : end
+    const stop = Math.min(isNaN(nextTime) ? end : nextTime, time + MAX_OBSERVATION_GAP, end)
+    append(observation.status, time, stop, 1)
+    cursor = stop
+  })
+  append("unknown", cursor, end, 0)
+
+  return segments
+}
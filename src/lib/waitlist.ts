@@ -0,0 +1,240 @@
+import { EventEmitter } from "events"
+import { randomUUID } from "crypto"
+import { getActiveCharger } from "@/lib/chargers"
+import { getCachedStatus } from "@/lib/charger-status"
+import { singleton } from "@/lib/singleton"
+import { getSite } from "@/lib/sites"
+import { isInUse, type ChargerStatus } from "@/lib/status"
+import { onStatusChange } from "@/lib/status-events"
+
+// How long the first person in line may take to get to a freed charger
+export const CLAIM_DURATION = (Number(process.env.WAITLIST_CLAIM_MINUTES) || 10) * 60 * 1000
+
+interface WaitlistEntry {
+  id: string;
+  name: string;
+  // Each site has its own line; people are only offered chargers where they are
+  siteId: string;
+  // Secret known only to the browser that joined, authorises leave/accept/skip
+  clientId: string;
+  joinedAt: string;
+}
+
+interface Claim {
+  entryId: string;
+  evseId: string;
+  siteId: string;
+  offeredAt: string;
+  expiresAt: string;
+  timer: NodeJS.Timeout;
+}
+
+// What every dashboard may see: no client secrets
+export interface WaitlistState {
+  entries: { id: string; name: string; siteId: string; joinedAt: string; position: number }[];
+  claims: { entryId: string; name: string; evseId: string; siteId: string; offeredAt: string; expiresAt: string }[];
+}
+
+export class WaitlistError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = "WaitlistError"
+  }
+}
+
+// The queue is intentionally kept in memory only: after a restart nobody is
+// standing in the car park waiting for a claim that no longer makes sense
+const state = singleton("waitlist", () => {
+  const emitter = new EventEmitter()
+  emitter.setMaxListeners(0)
+  return {
+    entries: [] as WaitlistEntry[],
+    claims: new Map<string, Claim>(),
+    // Last status other than "unknown" per charger, so a failed scrape in between does not hide a transition
+    lastKnownStatus: new Map<string, ChargerStatus>(),
+    emitter,
+    started: false,
+  }
+})
+
+export function getWaitlistState(): WaitlistState {
+  const entryById = new Map(state.entries.map((entry) => [entry.id, entry]))
+  const positions = new Map<string, number>()
+  return {
+    entries: state.entries.map((entry) => {
+      const position = (positions.get(entry.siteId) ?? 0) + 1
+      positions.set(entry.siteId, position)
+      return { id: entry.id, name: entry.name, siteId: entry.siteId, joinedAt: entry.joinedAt, position }
+    }),
+    claims: [...state.claims.values()].map((claim) => ({
+      entryId: claim.entryId,
+      name: entryById.get(claim.entryId)?.name ?? "",
+      evseId: claim.evseId,
+      siteId: claim.siteId,
+      offeredAt: claim.offeredAt,
+      expiresAt: claim.expiresAt,
+    })),
+  }
+}
+
+// Only the lines and claims of the given sites (undefined means all); positions stay per site
+export function scopeWaitlist(waitlist: WaitlistState, siteIds: string[] | undefined): WaitlistState {
+  if (!siteIds) return waitlist
+  return {
+    entries: waitlist.entries.filter((entry) => siteIds.includes(entry.siteId)),
+    claims: waitlist.claims.filter((claim) => siteIds.includes(claim.siteId)),
+  }
+}
+
+export function subscribeWaitlist(listener: (waitlist: WaitlistState) => void): () => void {
+  state.emitter.on("change", listener)
+  return () => {
+    state.emitter.off("change", listener)
+  }
+}
+
+function notify() {
+  state.emitter.emit("change", getWaitlistState())
+}
+
+function findEntry(clientId: string) {
+  const entry = state.entries.find((candidate) => candidate.clientId === clientId)
+  if (!entry) {
+    throw new WaitlistError("You are not in the queue", 404)
+  }
+  return entry
+}
+
+function findClaimFor(entryId: string) {
+  return [...state.claims.values()].find((claim) => claim.entryId === entryId)
+}
+
+function removeClaim(evseId: string) {
+  const claim = state.claims.get(evseId)
+  if (claim) {
+    clearTimeout(claim.timer)
+    state.claims.delete(evseId)
+  }
+  return claim
+}
+
+// Give a free charger to the first person in its site's line who has no claim yet
+function offerCharger(evseId: string, siteId: string, skipEntryIds: string[] = []) {
+  if (state.claims.has(evseId)) return
+
+  const claimed = new Set([...state.claims.values()].map((claim) => claim.entryId))
+  const entry = state.entries.find(
+    (candidate) => candidate.siteId === siteId && !claimed.has(candidate.id) && !skipEntryIds.includes(candidate.id),
+  )
+  if (!entry) return
+
+  const now = Date.now()
+  state.claims.set(evseId, {
+    entryId: entry.id,
+    evseId,
+    siteId,
+    offeredAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CLAIM_DURATION).toISOString(),
+    timer: setTimeout(() => expireClaim(evseId, entry.id), CLAIM_DURATION),
+  })
+}
+
+// A claim nobody took removes the person from the queue; the charger moves on
+function expireClaim(evseId: string, entryId: string) {
+  const claim = state.claims.get(evseId)
+  if (claim?.entryId !== entryId) return
+
+  removeClaim(evseId)
+  state.entries = state.entries.filter((entry) => entry.id !== entryId)
+  if (getCachedStatus(evseId)?.data.status === "available") {
+    offerCharger(evseId, claim.siteId)
+  }
+  notify()
+}
+
+export async function joinWaitlist(name: unknown, clientId: unknown, siteId: unknown) {
+  if (typeof name !== "string" || !name.trim() || name.trim().length > 50) {
+    throw new WaitlistError("name must be between 1 and 50 characters", 400)
+  }
+  if (typeof clientId !== "string" || clientId.length < 16) {
+    throw new WaitlistError("clientId is missing or too short", 400)
+  }
+  if (typeof siteId !== "string" || !(await getSite(siteId))) {
+    throw new WaitlistError("siteId must name a site", 400)
+  }
+  if (state.entries.some((entry) => entry.clientId === clientId)) {
+    throw new WaitlistError("You are already in the queue", 409)
+  }
+
+  const entry: WaitlistEntry = { id: randomUUID(), name: name.trim(), siteId, clientId, joinedAt: new Date().toISOString() }
+  state.entries.push(entry)
+
+  notify()
+  return entry
+}
+
+export function leaveWaitlist(clientId: string) {
+  const entry = findEntry(clientId)
+  const claim = findClaimFor(entry.id)
+  state.entries = state.entries.filter((candidate) => candidate.id !== entry.id)
+  if (claim) {
+    removeClaim(claim.evseId)
+    offerCharger(claim.evseId, claim.siteId)
+  }
+  notify()
+}
+
+// The claimant is on their way to the charger and leaves the queue
+export function acceptClaim(clientId: string) {
+  const entry = findEntry(clientId)
+  const claim = findClaimFor(entry.id)
+  if (!claim) {
+    throw new WaitlistError("You have no charger offered to you", 409)
+  }
+  removeClaim(claim.evseId)
+  state.entries = state.entries.filter((candidate) => candidate.id !== entry.id)
+  notify()
+  return claim.evseId
+}
+
+// The claimant passes on this charger but keeps their place for the next one
+export function skipClaim(clientId: string) {
+  const entry = findEntry(clientId)
+  const claim = findClaimFor(entry.id)
+  if (!claim) {
+    throw new WaitlistError("You have no charger offered to you", 409)
+  }
+  removeClaim(claim.evseId)
+  offerCharger(claim.evseId, claim.siteId, [entry.id])
+  notify()
+}
+
+// Hook the queue up to status transitions; called once at server start
+export function startWaitlist() {
+  if (state.started) return
+  state.started = true
+
+  onStatusChange(async (data) => {
+    if (data.status === "unknown") return
+
+    const lastKnown = state.lastKnownStatus.get(data.evseId)
+    state.lastKnownStatus.set(data.evseId, data.status)
+
+    try {
+      if (data.status === "available" && lastKnown && isInUse(lastKnown)) {
+        const charger = await getActiveCharger(data.evseId)
+        if (charger) {
+          offerCharger(data.evseId, charger.siteId)
+          notify()
+        }
+      } else if (data.status !== "available" && state.claims.has(data.evseId)) {
+        // Someone else got there first; the claimant keeps their place in line
+        removeClaim(data.evseId)
+        notify()
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`Error updating the waitlist for ${data.evseId}: ${errorMessage}`)
+    }
+  })
+}
@@ -0,0 +1,381 @@
+import { createHmac, randomBytes, randomUUID } from "crypto"
+import type { ChargerStatusData } from "@/lib/charger-status"
+import { singleton } from "@/lib/singleton"
+import { CHARGER_STATUSES, isChargerStatus, type ChargerStatus } from "@/lib/status"
+import { onStatusChange } from "@/lib/status-events"
+import { appendJsonLine, readJsonFile, readJsonLines, writeJsonFile } from "@/lib/storage"
+
+const SUBSCRIPTIONS_FILE = "webhooks.json"
+const DELIVERIES_FILE = "webhook-deliveries.jsonl"
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name])
+  return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback
+}
+
+// Attempts per event including the first one; the delay doubles after every failure
+export const MAX_ATTEMPTS = Math.max(1, numberFromEnv("WEBHOOK_MAX_ATTEMPTS", 6))
+export const RETRY_BASE_DELAY = numberFromEnv("WEBHOOK_RETRY_BASE_MS", 30 * 1000)
+const DELIVERY_TIMEOUT = 10 * 1000
+
+export const DEFAULT_DELIVERY_LIMIT = 50
+export const MAX_DELIVERY_LIMIT = 500
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature"
+
+// A receiver of status transitions; empty filters match everything
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  evseIds: string[];
+  statuses: ChargerStatus[];
+  // Shared secret for the HMAC signature, only returned when the subscription is created
+  secret: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PublicWebhookSubscription = Omit<WebhookSubscription, "secret">
+
+export interface WebhookPayload {
+  id: string;
+  type: "charger.status_changed";
+  occurredAt: string;
+  evseId: string;
+  siteId: string;
+  location: string;
+  status: ChargerStatus;
+  previousStatus: ChargerStatus;
+  statusText: string;
+  source: string | null;
+  confidence: number;
+}
+
+// One HTTP attempt to deliver an event to a subscription
+export interface WebhookDelivery {
+  subscriptionId: string;
+  eventId: string;
+  evseId: string;
+  status: ChargerStatus;
+  attempt: number;
+  outcome: "delivered" | "retrying" | "failed";
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+  timestamp: string;
+  nextAttemptAt?: string;
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public status: number, public details: string[] = []) {
+    super(message)
+    this.name = "WebhookError"
+  }
+}
+
+const state = singleton("webhooks", () => ({
+  subscriptions: null as Record<string, WebhookSubscription> | null,
+  // Serialises writes so concurrent API requests cannot overwrite each other
+  queue: Promise.resolve() as Promise<unknown>,
+  // Last status other than "unknown" per charger, so a failed scrape in between neither sends nor hides a transition
+  lastKnownStatus: new Map<string, ChargerStatus>(),
+  started: false,
+}))
+
+async function load(): Promise<Record<string, WebhookSubscription>> {
+  if (!state.subscriptions) {
+    state.subscriptions = await readJsonFile<Record<string, WebhookSubscription>>(SUBSCRIPTIONS_FILE, {})
+  }
+  return state.subscriptions
+}
+
+function mutate<T>(change: (subscriptions: Record<string, WebhookSubscription>) => T): Promise<T> {
+  const run = state.queue.then(async () => {
+    // Changed on a copy that only replaces the one in memory once it is on disk
+    const subscriptions = structuredClone(await load())
+    const result = change(subscriptions)
+    await writeJsonFile(SUBSCRIPTIONS_FILE, subscriptions)
+    state.subscriptions = subscriptions
+    return result
+  })
+  state.queue = run.catch(() => undefined)
+  return run
+}
+
+export function toPublicSubscription(subscription: WebhookSubscription): PublicWebhookSubscription {
+  const { id, url, evseIds, statuses, active, createdAt, updatedAt } = subscription
+  return { id, url, evseIds, statuses, active, createdAt, updatedAt }
+}
+
+function validateStringList(value: unknown, field: string, errors: string[]): string[] | undefined {
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string" || !entry.trim())) {
+    errors.push(`${field} must be an array of non-empty strings`)
+    return undefined
+  }
+  return [...new Set(value.map((entry: string) => entry.trim()))]
+}
+
+// Validate a create (partial = false) or edit (partial = true) payload
+function validateSubscriptionInput(input: unknown, partial: boolean): Partial<WebhookSubscription> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new WebhookError("Request body must be a JSON object", 400)
+  }
+
+  const data = input as Record<string, unknown>
+  const errors: string[] = []
+  const result: Partial<WebhookSubscription> = {}
+
+  if (data.url !== undefined || !partial) {
+    let url: URL | null = null
+    try {
+      url = typeof data.url === "string" ? new URL(data.url) : null
+    } catch {
+      url = null
+    }
+    if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+      errors.push("url must be an http or https URL")
+    } else {
+      result.url = url.toString()
+    }
+  }
+
+  if (data.evseIds !== undefined) {
+    result.evseIds = validateStringList(data.evseIds, "evseIds", errors)
+  }
+
+  if (data.statuses !== undefined) {
+    const statuses = validateStringList(data.statuses, "statuses", errors)
+    const invalid = statuses?.filter((status) => !isChargerStatus(status)) ?? []
+    if (invalid.length > 0) {
+      errors.push(`statuses must be among ${CHARGER_STATUSES.join(", ")}; got ${invalid.join(", ")}`)
+    } else {
+      result.statuses = statuses as ChargerStatus[] | undefined
+    }
+  }
+
+  if (data.secret !== undefined) {
+    if (typeof data.secret !== "string" || data.secret.length < 16) {
+      errors.push("secret must be a string of at least 16 characters")
+    } else {
+      result.secret = data.secret
+    }
+  }
+
+  if (data.active !== undefined) {
+    if (typeof data.active !== "boolean") {
+      errors.push("active must be a boolean")
+    } else {
+      result.active = data.active
+    }
+  }
+
+  if (data.id !== undefined) {
+    errors.push("id cannot be set")
+  }
+
+  if (errors.length > 0) {
+    throw new WebhookError("Invalid webhook subscription", 400, errors)
+  }
+
+  return result
+}
+
+export async function listSubscriptions(): Promise<WebhookSubscription[]> {
+  return Object.values(await load())
+}
+
+export async function getSubscription(id: string): Promise<WebhookSubscription | undefined> {
+  return (await load())[id]
+}
+
+export function createSubscription(input: unknown): Promise<WebhookSubscription> {
+  const data = validateSubscriptionInput(input, false)
+  return mutate((subscriptions) => {
+    const now = new Date().toISOString()
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      url: data.url!,
+      evseIds: data.evseIds ?? [],
+      statuses: data.statuses ?? [],
+      secret: data.secret ?? randomBytes(32).toString("hex"),
+      active: data.active ?? true,
+      createdAt: now,
+      updatedAt: now,
+    }
+    subscriptions[subscription.id] = subscription
+    return subscription
+  })
+}
+
+export function updateSubscription(id: string, input: unknown): Promise<WebhookSubscription> {
+  const data = validateSubscriptionInput(input, true)
+  return mutate((subscriptions) => {
+    const existing = subscriptions[id]
+    if (!existing) {
+      throw new WebhookError(`No webhook subscription found with id ${id}`, 404)
+    }
+    const subscription = { ...existing, ...data, updatedAt: new Date().toISOString() }
+    subscriptions[id] = subscription
+    return subscription
+  })
+}
+
+export function deleteSubscription(id: string): Promise<WebhookSubscription> {
+  return mutate((subscriptions) => {
+    const existing = subscriptions[id]
+    if (!existing) {
+      throw new WebhookError(`No webhook subscription found with id ${id}`, 404)
+    }
+    delete subscriptions[id]
+    return existing
+  })
+}
+
+// Delivery attempts for one subscription, newest first
+export async function getDeliveries(subscriptionId: string, limit = DEFAULT_DELIVERY_LIMIT): Promise<WebhookDelivery[]> {
+  const deliveries = await readJsonLines<WebhookDelivery>(DELIVERIES_FILE)
+  return deliveries
+    .filter((delivery) => delivery.subscriptionId === subscriptionId)
+    .reverse()
+    .slice(0, Math.min(limit, MAX_DELIVERY_LIMIT))
+}
+
+// Receivers recompute this over "<timestamp>.<body>" with their copy of the secret
+export function signPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+}
+
+function matches(subscription: WebhookSubscription, payload: WebhookPayload) {
+  return (
+    subscription.active &&
+    (subscription.evseIds.length === 0 || subscription.evseIds.includes(payload.evseId)) &&
+    (subscription.statuses.length === 0 || subscription.statuses.includes(payload.status))
+  )
+}
+
+async function logDelivery(delivery: WebhookDelivery) {
+  try {
+    await appendJsonLine(DELIVERIES_FILE, delivery)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error recording webhook delivery: ${errorMessage}`)
+  }
+}
+
+// Send one attempt and schedule the next one on failure. Pending retries live
+// in memory only, so a restart drops them; the delivery log shows where they stopped.
+async function deliver(subscriptionId: string, payload: WebhookPayload, attempt: number) {
+  const subscription = await getSubscription(subscriptionId)
+  // Deleted or paused while a retry was pending
+  if (!subscription?.active) return
+
+  const body = JSON.stringify(payload)
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const startedAt = Date.now()
+  let responseStatus: number | undefined
+  let error: string | undefined
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "prien-charger-webhooks/1.0",
+        "X-Webhook-Id": payload.id,
+        "X-Webhook-Timestamp": timestamp,
+        [SIGNATURE_HEADER]: signPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+      redirect: "manual",
+    })
+    responseStatus = response.status
+    if (!response.ok) {
+      error = `Receiver responded with ${response.status}`
+    }
+  } catch (fetchError: unknown) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError)
+  }
+
+  const delivery: WebhookDelivery = {
+    subscriptionId,
+    eventId: payload.id,
+    evseId: payload.evseId,
+    status: payload.status,
+    attempt,
+    outcome: "delivered",
+    responseStatus,
+    error,
+    durationMs: Date.now() - startedAt,
+    timestamp: new Date().toISOString(),
+  }
+
+  if (error) {
+    if (attempt < MAX_ATTEMPTS) {
+      const delay = RETRY_BASE_DELAY * 2 ** (attempt - 1)
+      delivery.outcome = "retrying"
+      delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString()
+      setTimeout(() => deliverInBackground(subscriptionId, payload, attempt + 1), delay)
+    } else {
+      delivery.outcome = "failed"
+      console.error(`Giving up on webhook ${payload.id} to ${subscription.url} after ${attempt} attempts: ${error}`)
+    }
+  }
+
+  await logDelivery(delivery)
+}
+
+function deliverInBackground(subscriptionId: string, payload: WebhookPayload, attempt: number) {
+  deliver(subscriptionId, payload, attempt).catch((error) =>
+    console.error(`Error delivering webhook ${payload.id}: ${error instanceof Error ? error.message : error}`),
+  )
+}
+
+async function dispatch(data: ChargerStatusData, previousStatus: ChargerStatus) {
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type: "charger.status_changed",
+    occurredAt: data.lastUpdated,
+    evseId: data.evseId,
+    siteId: data.siteId,
+    location: data.location,
+    status: data.status,
+    previousStatus,
+    statusText: data.statusText,
+    source: data.source,
+    confidence: data.confidence,
+  }
+
+  try {
+    for (const subscription of await listSubscriptions()) {
+      if (matches(subscription, payload)) {
+        deliverInBackground(subscription.id, payload, 1)
+      }
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Error dispatching webhooks for ${data.evseId}: ${errorMessage}`)
+  }
+}
+
+// Hook webhooks up to status transitions; called once at server start
+export function startWebhooks() {
+  if (state.started) return
+  state.started = true
+
+  onStatusChange((data, previous) => {
+    if (data.status === "unknown") return
+
+    const lastKnown =
+      state.lastKnownStatus.get(data.evseId) ?? (previous?.status !== "unknown" ? previous?.status : undefined)
+    state.lastKnownStatus.set(data.evseId, data.status)
+
+    // The first result after a restart is not a transition
+    if (lastKnown && lastKnown !== data.status) {
+      dispatch(data, lastKnown).catch((error) =>
+        console.error(`Error dispatching webhooks for ${data.evseId}: ${error instanceof Error ? error.message : error}`),
+      )
+    }
+  })
+}